@@ -0,0 +1,97 @@
+// Service worker: keeps the app shell available offline and wakes the page to
+// send saved report drafts when the connection returns (Background Sync).
+
+const CACHE_NAME = 'greengen-shell-v2';
+
+// Fetched on install together with the built scripts and styles that
+// index.html references, so the installed app can start offline
+const APP_SHELL = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/logo.svg',
+  '/placeholder.svg',
+  '/icons/icon.svg',
+  '/icons/maskable-icon.svg',
+  '/icons/camera.svg'
+];
+
+const DRAFT_SYNC_TAG = 'sync-report-drafts';
+
+// Built asset URLs (/assets/index-<hash>.js etc.) referenced by the page
+const entryAssets = async () => {
+  const response = await fetch('/index.html', { cache: 'no-cache' });
+  const html = await response.text();
+  return [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), entryAssets()])
+      .then(([cache, assets]) => cache.addAll([...APP_SHELL, ...assets]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // API, storage and map tile requests always go to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages: network first so deploys show up, the cached shell when offline.
+  // All routes are served by index.html.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy never goes stale
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) {
+        return cached;
+      }
+
+      return fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
+
+// Drafts are sent from the page, which has the user's session
+self.addEventListener('sync', (event) => {
+  if (event.tag !== DRAFT_SYNC_TAG) {
+    return;
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: DRAFT_SYNC_TAG }));
+    })
+  );
+});
@@ -6,10 +6,12 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
 import ProtectedRoute from "./components/ProtectedRoute";
+import ReportDraftSync from "./components/ReportDraftSync";
 import Index from "./pages/Index";
 import ReportWaste from "./pages/ReportWaste";
 import CollectWaste from "./pages/CollectWaste";
 import Rewards from "./pages/Rewards";
+import MyRedemptions from "./pages/MyRedemptions";
 import Leaderboard from "./pages/Leaderboard";
 import Settings from "./pages/Settings";
 import Login from "./pages/Login";
@@ -96,6 +98,7 @@ const App = () => {
         <Sonner />
         <BrowserRouter>
           <AuthProvider>
+            <ReportDraftSync />
             <Routes>
               {/* Public routes */}
               <Route path="/" element={<Index />} />
@@ -113,6 +116,14 @@ const App = () => {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/report/quick"
+                element={
+                  <ProtectedRoute>
+                    <ReportWaste quick />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/collect"
                 element={
@@ -129,6 +140,14 @@ const App = () => {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/redemptions"
+                element={
+                  <ProtectedRoute>
+                    <MyRedemptions />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/settings"
                 element={
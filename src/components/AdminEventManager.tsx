@@ -7,11 +7,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
-import { Plus, Edit, Trash2, AlertCircle } from "lucide-react";
+import { Plus, Edit, Trash2, AlertCircle, Users } from "lucide-react";
 import { createUtilsToast } from "@/lib/utils";
 import { checkUserIsAdmin, addUserToAdminTable } from "@/utils/adminUtils";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useNavigate } from "react-router-dom";
+import EventRoster from "@/components/EventRoster";
 
 type CollectionEvent = {
   id: string;
@@ -20,6 +21,9 @@ type CollectionEvent = {
   date: string;
   time_range: string;
   participants: number;
+  capacity: number | null;
+  latitude: number | null;
+  longitude: number | null;
   waste_small: number;
   waste_medium: number;
   waste_large: number;
@@ -31,7 +35,9 @@ const emptyEvent: Partial<CollectionEvent> = {
   location: "",
   date: "",
   time_range: "",
-  participants: 0,
+  capacity: null,
+  latitude: null,
+  longitude: null,
   waste_small: 0,
   waste_medium: 0,
   waste_large: 0,
@@ -48,6 +54,7 @@ export default function AdminEventManager() {
   const [submitting, setSubmitting] = useState(false);
   const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [rosterEvent, setRosterEvent] = useState<CollectionEvent | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -114,9 +121,9 @@ export default function AdminEventManager() {
     setForm((prev) => ({
       ...prev,
       [name]:
-        ["participants", "waste_small", "waste_medium", "waste_large"].includes(
-          name
-        )
+        ["capacity", "latitude", "longitude"].includes(name)
+          ? value === "" ? null : Number(value)
+          : ["waste_small", "waste_medium", "waste_large"].includes(name)
           ? Number(value)
           : value,
     }));
@@ -158,7 +165,9 @@ export default function AdminEventManager() {
             date: form.date,
             time_range: form.time_range,
             status: form.status,
-            participants: form.participants || 0,
+            capacity: form.capacity || null,
+            latitude: form.latitude ?? null,
+            longitude: form.longitude ?? null,
             waste_small: form.waste_small || 0,
             waste_medium: form.waste_medium || 0,
             waste_large: form.waste_large || 0
@@ -184,7 +193,9 @@ export default function AdminEventManager() {
             date: form.date,
             time_range: form.time_range,
             status: form.status,
-            participants: form.participants || 0,
+            capacity: form.capacity || null,
+            latitude: form.latitude ?? null,
+            longitude: form.longitude ?? null,
             waste_small: form.waste_small || 0,
             waste_medium: form.waste_medium || 0,
             waste_large: form.waste_large || 0
@@ -308,12 +319,36 @@ export default function AdminEventManager() {
           </div>
           <div>
             <Input
-              name="participants"
+              name="capacity"
               type="number"
-              value={form.participants || 0}
+              value={form.capacity ?? ""}
               onChange={handleInputChange}
-              placeholder="Participants"
-              min={0}
+              placeholder="Capacity (blank for unlimited)"
+              min={1}
+            />
+          </div>
+          <div>
+            <Input
+              name="latitude"
+              type="number"
+              value={form.latitude ?? ""}
+              onChange={handleInputChange}
+              placeholder="Latitude (for the map)"
+              min={-90}
+              max={90}
+              step="any"
+            />
+          </div>
+          <div>
+            <Input
+              name="longitude"
+              type="number"
+              value={form.longitude ?? ""}
+              onChange={handleInputChange}
+              placeholder="Longitude (for the map)"
+              min={-180}
+              max={180}
+              step="any"
             />
           </div>
           <div>
@@ -423,8 +458,19 @@ export default function AdminEventManager() {
                       </Badge>
                     </td>
                     <td className="p-2">{event.waste_small} / {event.waste_medium} / {event.waste_large}</td>
-                    <td className="p-2">{event.participants}</td>
+                    <td className="p-2">
+                      {event.participants}{event.capacity ? ` / ${event.capacity}` : ""}
+                    </td>
                     <td className="p-2 flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="border-eco text-eco hover:bg-eco-light hover:text-eco-dark"
+                        onClick={() => setRosterEvent(event)}
+                        title="View participants"
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -448,6 +494,8 @@ export default function AdminEventManager() {
             </table>
           </div>
         )}
+
+        <EventRoster event={rosterEvent} onClose={() => setRosterEvent(null)} />
       </CardContent>
     </Card>
   );
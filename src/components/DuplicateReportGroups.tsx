@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Copy, GitMerge, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { createUtilsToast } from "@/lib/utils";
+import { dismissDuplicateFlag, groupSuspectedDuplicates, mergeWasteReports } from "@/utils/duplicateUtils";
+
+type GroupableReport = {
+  id: string;
+  title: string;
+  location: string;
+  waste_size: string;
+  image_url: string | null;
+  status: string;
+  created_at: string;
+  suspected_duplicate_of: string | null;
+};
+
+interface DuplicateReportGroupsProps {
+  reports: GroupableReport[];
+  onChanged: () => void;
+}
+
+const DuplicateReportGroups = ({ reports, onChanged }: DuplicateReportGroupsProps) => {
+  const [canonicalIds, setCanonicalIds] = useState<Record<string, string>>({});
+  const [busyGroupId, setBusyGroupId] = useState<string | null>(null);
+
+  const groups = groupSuspectedDuplicates(reports);
+
+  const handleMerge = async (groupId: string, members: GroupableReport[]) => {
+    const canonicalId = canonicalIds[groupId] || groupId;
+    const duplicateIds = members.filter(r => r.id !== canonicalId).map(r => r.id);
+
+    setBusyGroupId(groupId);
+    const { merged, error } = await mergeWasteReports(canonicalId, duplicateIds);
+    setBusyGroupId(null);
+
+    if (error) {
+      createUtilsToast.error("Failed to merge reports", error);
+      return;
+    }
+
+    createUtilsToast.success("Reports merged", `${merged} duplicate report${merged === 1 ? '' : 's'} merged.`);
+    onChanged();
+  };
+
+  const handleDismiss = async (groupId: string, reportId: string) => {
+    setBusyGroupId(groupId);
+    const { error } = await dismissDuplicateFlag(reportId);
+    setBusyGroupId(null);
+
+    if (error) {
+      createUtilsToast.error("Failed to dismiss flag", error);
+      return;
+    }
+
+    createUtilsToast.success("Marked as not a duplicate");
+    onChanged();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Possible Duplicates</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No possible duplicates to review
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(({ original, duplicates }) => {
+              const members = [original, ...duplicates];
+              const canonicalId = canonicalIds[original.id] || original.id;
+
+              return (
+                <div key={original.id} className="rounded-md border p-4 space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {members.map((report) => (
+                      <label
+                        key={report.id}
+                        className={`rounded-md border p-3 cursor-pointer space-y-2 ${
+                          canonicalId === report.id ? 'border-eco ring-1 ring-eco' : ''
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="radio"
+                              name={`canonical-${original.id}`}
+                              checked={canonicalId === report.id}
+                              onChange={() => setCanonicalIds(prev => ({ ...prev, [original.id]: report.id }))}
+                            />
+                            <span className="text-sm font-medium">
+                              {report.id === original.id ? "Original" : "Flagged"}
+                            </span>
+                          </div>
+                          <Badge variant="secondary">{report.status}</Badge>
+                        </div>
+                        {report.image_url ? (
+                          <img
+                            src={report.image_url}
+                            alt={report.title}
+                            className="rounded border object-cover h-40 w-full"
+                            onError={(e) => {
+                              (e.target as HTMLImageElement).src = '/placeholder.svg';
+                            }}
+                          />
+                        ) : (
+                          <div className="rounded border h-40 w-full flex items-center justify-center bg-gray-50 text-gray-500 text-sm">
+                            No image
+                          </div>
+                        )}
+                        <div>
+                          <p className="font-medium text-sm">{report.title}</p>
+                          <p className="text-xs text-gray-500">{report.location}</p>
+                          <p className="text-xs text-gray-500">
+                            {report.waste_size} · {format(new Date(report.created_at), 'MMM d, yyyy HH:mm')}
+                          </p>
+                        </div>
+                        {report.id !== original.id && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-full"
+                            onClick={(e) => {
+                              e.preventDefault();
+                              handleDismiss(original.id, report.id);
+                            }}
+                            disabled={busyGroupId === original.id}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Not a duplicate
+                          </Button>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-500 flex items-center">
+                      <Copy className="h-4 w-4 mr-1" />
+                      Select the report to keep. The others are rejected and any tokens they earned are reversed.
+                    </p>
+                    <Button
+                      className="bg-eco hover:bg-eco-dark"
+                      onClick={() => handleMerge(original.id, members)}
+                      disabled={busyGroupId === original.id}
+                    >
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Merge into selected
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateReportGroups;
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { EventParticipant, fetchEventRoster } from "@/utils/eventUtils";
+
+interface EventRosterProps {
+  event: {
+    id: string;
+    title: string;
+    capacity: number | null;
+  } | null;
+  onClose: () => void;
+}
+
+const EventRoster = ({ event, onClose }: EventRosterProps) => {
+  const [participants, setParticipants] = useState<EventParticipant[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!event) return;
+
+    const loadRoster = async () => {
+      setLoading(true);
+      setParticipants(await fetchEventRoster(event.id));
+      setLoading(false);
+    };
+
+    loadRoster();
+  }, [event]);
+
+  const registered = participants.filter(p => p.status === 'registered');
+  const waitlisted = participants.filter(p => p.status === 'waitlisted');
+
+  return (
+    <Dialog open={!!event} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Participants</DialogTitle>
+          <DialogDescription>
+            {event?.title} — {registered.length}
+            {event?.capacity ? ` / ${event.capacity}` : ""} registered
+            {waitlisted.length > 0 && `, ${waitlisted.length} on waitlist`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 text-eco animate-spin" />
+          </div>
+        ) : participants.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">No one has signed up yet.</div>
+        ) : (
+          <ul className="divide-y max-h-80 overflow-y-auto">
+            {participants.map((participant, index) => (
+              <li key={participant.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium">{participant.name}</p>
+                  <p className="text-xs text-gray-500">
+                    Joined {format(new Date(participant.created_at), 'MMM d, yyyy HH:mm')}
+                  </p>
+                </div>
+                {participant.status === 'registered' ? (
+                  <Badge className="bg-eco hover:bg-eco-dark">Registered</Badge>
+                ) : (
+                  <Badge variant="secondary">Waitlist #{index - registered.length + 1}</Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventRoster;
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { CheckCircle, XCircle, Loader2, MapPin, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import VerificationResult from "@/components/VerificationResult";
+import { createUtilsToast } from "@/lib/utils";
+import { getTokensForWasteSize } from "@/utils/rewardUtils";
+import { wasteCategoryLabel } from "@/constants/wasteCategories";
+import {
+  ModerationDecision,
+  PendingReport,
+  fetchPendingReports,
+  moderateWasteReport,
+  rerunReportVerification
+} from "@/utils/moderationUtils";
+import { StoredVerification, fetchReportVerifications } from "@/utils/verificationUtils";
+
+interface ModerationQueueProps {
+  onModerated?: () => void;
+}
+
+const ModerationQueue = ({ onModerated }: ModerationQueueProps) => {
+  const [reports, setReports] = useState<PendingReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [verifications, setVerifications] = useState<Record<string, StoredVerification[]>>({});
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReports = async () => {
+      setIsLoading(true);
+      const pending = await fetchPendingReports();
+      setReports(pending);
+      setVerifications(await fetchReportVerifications(pending.map(r => r.id)));
+      setIsLoading(false);
+    };
+
+    loadReports();
+  }, []);
+
+  const handleVerify = async (report: PendingReport) => {
+    if (!report.image_url) return;
+
+    setVerifyingId(report.id);
+    const { stored, error } = await rerunReportVerification(report.id, report.image_url);
+    setVerifyingId(null);
+
+    if (error || !stored) {
+      createUtilsToast.error("AI verification failed", error || undefined);
+      return;
+    }
+
+    setVerifications(prev => ({ ...prev, [report.id]: [stored, ...(prev[report.id] || [])] }));
+  };
+
+  const handleModerate = async (report: PendingReport, decision: ModerationDecision) => {
+    const reason = reasons[report.id] || "";
+
+    if (decision === 'reject' && !reason.trim()) {
+      createUtilsToast.error("Reason required", "Please explain why this report is being rejected.");
+      return;
+    }
+
+    setModeratingId(report.id);
+    const { tokenChange, error } = await moderateWasteReport(report.id, decision, reason);
+    setModeratingId(null);
+
+    if (error) {
+      createUtilsToast.error(`Failed to ${decision} report`, error);
+      return;
+    }
+
+    if (decision === 'approve') {
+      createUtilsToast.success("Report approved", `${tokenChange} tokens awarded to the reporter.`);
+    } else {
+      createUtilsToast.success(
+        "Report rejected",
+        tokenChange < 0 ? `${-tokenChange} previously credited tokens were reversed.` : undefined
+      );
+    }
+
+    setReports(prev => prev.filter(r => r.id !== report.id));
+    onModerated?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Moderation Queue</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-eco"></div>
+          </div>
+        ) : reports.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No reports waiting for review
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {reports.map((report) => (
+              <div key={report.id} className="rounded-md border p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Image */}
+                <div>
+                  {report.image_url ? (
+                    <img
+                      src={report.image_url}
+                      alt={report.title}
+                      className="rounded border object-cover h-64 w-full"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = '/placeholder.svg';
+                      }}
+                    />
+                  ) : (
+                    <div className="rounded border h-64 w-full flex items-center justify-center bg-gray-50 text-gray-500">
+                      No image provided
+                    </div>
+                  )}
+                </div>
+
+                {/* Details, AI result and actions */}
+                <div className="space-y-3">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h3 className="font-semibold">{report.title}</h3>
+                      <p className="text-xs text-gray-500">
+                        Submitted {format(new Date(report.created_at), 'MMM d, yyyy HH:mm')}
+                      </p>
+                    </div>
+                    <Badge variant="secondary">
+                      {report.waste_size} · {getTokensForWasteSize(report.waste_size)} tokens
+                    </Badge>
+                  </div>
+
+                  <p className="text-sm flex items-start">
+                    <MapPin className="h-4 w-4 mr-1 mt-0.5 text-gray-500 shrink-0" />
+                    {report.location}
+                  </p>
+
+                  {(report.hazardous || report.waste_categories.length > 0) && (
+                    <div className="flex flex-wrap gap-1">
+                      {report.hazardous && <Badge variant="destructive">Hazardous</Badge>}
+                      {report.waste_categories.map(category => (
+                        <Badge key={category} variant="outline">{wasteCategoryLabel(category)}</Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {report.description && (
+                    <p className="text-sm text-gray-600">{report.description}</p>
+                  )}
+
+                  {verifications[report.id]?.length ? (
+                    verifications[report.id].map((stored) => (
+                      <VerificationResult key={stored.id} stored={stored} showRawResponse />
+                    ))
+                  ) : (
+                    <p className="text-sm text-gray-500">No AI verification was recorded for this report.</p>
+                  )}
+
+                  {report.image_url && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleVerify(report)}
+                      disabled={verifyingId === report.id}
+                    >
+                      {verifyingId === report.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Sparkles className="h-4 w-4 mr-2" />
+                      )}
+                      {verifications[report.id]?.length ? "Re-run AI verification" : "Run AI verification"}
+                    </Button>
+                  )}
+
+                  <Textarea
+                    value={reasons[report.id] || ""}
+                    onChange={(e) => setReasons(prev => ({ ...prev, [report.id]: e.target.value }))}
+                    placeholder="Reason (required when rejecting)"
+                    className="min-h-[70px] resize-none"
+                  />
+
+                  <div className="flex gap-2">
+                    <Button
+                      className="flex-1 bg-eco hover:bg-eco-dark"
+                      onClick={() => handleModerate(report, 'approve')}
+                      disabled={moderatingId === report.id}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button
+                      className="flex-1"
+                      variant="destructive"
+                      onClick={() => handleModerate(report, 'reject')}
+                      disabled={moderatingId === report.id}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModerationQueue;
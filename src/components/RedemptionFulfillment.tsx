@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2, MapPin, Phone, Ticket, Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import RedemptionTimeline, { RedemptionStatusBadge } from "@/components/RedemptionTimeline";
+import { createUtilsToast } from "@/lib/utils";
+import {
+  NEXT_REDEMPTION_STATUSES,
+  REDEMPTION_STATUSES,
+  REFUNDED_REDEMPTION_STATUSES,
+  Redemption,
+  RedemptionEvent,
+  fetchRedemptionEvents,
+  fetchRedemptions,
+  formatRedemptionStatus,
+  updateRedemptionStatus
+} from "@/utils/redemptionUtils";
+
+// Redemptions that still need something done
+const OPEN_STATUSES = ['pending', 'approved', 'shipped'];
+
+const ACTION_LABELS: Record<string, string> = {
+  approved: "Approve",
+  shipped: "Mark shipped",
+  delivered: "Mark delivered",
+  rejected: "Reject",
+  cancelled: "Cancel"
+};
+
+const RedemptionFulfillment = () => {
+  const [statusFilter, setStatusFilter] = useState('open');
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [events, setEvents] = useState<Record<string, RedemptionEvent[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [trackingReferences, setTrackingReferences] = useState<Record<string, string>>({});
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadRedemptions = async (filter: string) => {
+    setIsLoading(true);
+    const list = await fetchRedemptions(filter === 'open' ? OPEN_STATUSES : [filter]);
+    setRedemptions(list);
+    setEvents(await fetchRedemptionEvents(list.map(r => r.id)));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadRedemptions(statusFilter);
+  }, [statusFilter]);
+
+  const handleUpdate = async (redemption: Redemption, status: string) => {
+    const note = notes[redemption.id] || "";
+
+    if (REFUNDED_REDEMPTION_STATUSES.includes(status) && !note.trim()) {
+      createUtilsToast.error("Note required", `Please explain why this redemption is being ${status}.`);
+      return;
+    }
+
+    setUpdatingId(redemption.id);
+    const { refunded, error } = await updateRedemptionStatus(
+      redemption.id,
+      status,
+      note,
+      status === 'shipped' ? trackingReferences[redemption.id] : undefined
+    );
+    setUpdatingId(null);
+
+    if (error) {
+      createUtilsToast.error("Failed to update redemption", error);
+      return;
+    }
+
+    createUtilsToast.success(
+      `Redemption ${status}`,
+      refunded > 0 ? `${refunded} tokens were refunded to the user.` : undefined
+    );
+    setNotes(prev => ({ ...prev, [redemption.id]: "" }));
+    await loadRedemptions(statusFilter);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Reward Redemptions</CardTitle>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            {REDEMPTION_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>{formatRedemptionStatus(status)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-eco"></div>
+          </div>
+        ) : redemptions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No redemptions to show
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {redemptions.map((redemption) => {
+              const nextStatuses = NEXT_REDEMPTION_STATUSES[redemption.status] || [];
+
+              return (
+                <div key={redemption.id} className="rounded-md border p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Reward and delivery details */}
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h3 className="font-semibold">{redemption.reward?.title ?? "Reward"}</h3>
+                        <p className="text-xs text-gray-500">
+                          Redeemed {format(new Date(redemption.created_at), 'MMM d, yyyy HH:mm')}
+                          {redemption.reward && ` · ${redemption.reward.token_cost} tokens`}
+                        </p>
+                      </div>
+                      <RedemptionStatusBadge status={redemption.status} />
+                    </div>
+
+                    {redemption.voucher_code ? (
+                      <p className="text-sm flex items-center">
+                        <Ticket className="h-4 w-4 mr-1 text-gray-500 shrink-0" />
+                        Voucher code: <span className="ml-1 font-mono break-all">{redemption.voucher_code}</span>
+                      </p>
+                    ) : redemption.shipping_address ? (
+                      <div className="text-sm space-y-1">
+                        <p className="flex items-start">
+                          <MapPin className="h-4 w-4 mr-1 mt-0.5 text-gray-500 shrink-0" />
+                          <span className="whitespace-pre-line">
+                            {redemption.recipient_name}
+                            {"\n"}
+                            {redemption.shipping_address}
+                          </span>
+                        </p>
+                        {redemption.contact_phone && (
+                          <p className="flex items-center">
+                            <Phone className="h-4 w-4 mr-1 text-gray-500 shrink-0" />
+                            {redemption.contact_phone}
+                          </p>
+                        )}
+                        {redemption.delivery_instructions && (
+                          <p className="text-gray-600">{redemption.delivery_instructions}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">No delivery details recorded.</p>
+                    )}
+
+                    {redemption.tracking_reference && (
+                      <p className="text-sm flex items-center">
+                        <Truck className="h-4 w-4 mr-1 text-gray-500 shrink-0" />
+                        Tracking: <span className="ml-1 font-mono">{redemption.tracking_reference}</span>
+                      </p>
+                    )}
+                  </div>
+
+                  {/* History and actions */}
+                  <div className="space-y-3">
+                    <RedemptionTimeline events={events[redemption.id] || []} />
+
+                    {nextStatuses.length > 0 && (
+                      <>
+                        {nextStatuses.includes('shipped') && (
+                          <Input
+                            value={trackingReferences[redemption.id] || ""}
+                            onChange={(e) => setTrackingReferences(prev => ({ ...prev, [redemption.id]: e.target.value }))}
+                            placeholder="Tracking reference (optional)"
+                          />
+                        )}
+
+                        <Textarea
+                          value={notes[redemption.id] || ""}
+                          onChange={(e) => setNotes(prev => ({ ...prev, [redemption.id]: e.target.value }))}
+                          placeholder="Note (required when rejecting or cancelling)"
+                          className="min-h-[70px] resize-none"
+                        />
+
+                        <div className="flex gap-2">
+                          {nextStatuses.map(status => (
+                            <Button
+                              key={status}
+                              className={REFUNDED_REDEMPTION_STATUSES.includes(status) ? "flex-1" : "flex-1 bg-eco hover:bg-eco-dark"}
+                              variant={REFUNDED_REDEMPTION_STATUSES.includes(status) ? "destructive" : "default"}
+                              onClick={() => handleUpdate(redemption, status)}
+                              disabled={updatingId === redemption.id}
+                            >
+                              {updatingId === redemption.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                              {ACTION_LABELS[status]}
+                            </Button>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RedemptionFulfillment;
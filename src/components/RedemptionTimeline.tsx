@@ -0,0 +1,46 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { RedemptionEvent, formatRedemptionStatus } from "@/utils/redemptionUtils";
+
+const STATUS_CLASSES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  approved: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  shipped: "bg-purple-100 text-purple-800 hover:bg-purple-100",
+  delivered: "bg-green-100 text-green-800 hover:bg-green-100",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-100",
+  cancelled: "bg-red-100 text-red-800 hover:bg-red-100"
+};
+
+export const RedemptionStatusBadge = ({ status }: { status: string }) => (
+  <Badge className={STATUS_CLASSES[status] || ""}>{formatRedemptionStatus(status)}</Badge>
+);
+
+interface RedemptionTimelineProps {
+  events: RedemptionEvent[];
+}
+
+// Status history of a redemption, oldest first
+const RedemptionTimeline = ({ events }: RedemptionTimelineProps) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No status history recorded.</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border-l border-gray-200 dark:border-gray-700 pl-4">
+      {events.map((event) => (
+        <li key={event.id} className="relative">
+          <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-eco" />
+          <p className="text-sm font-medium">
+            {formatRedemptionStatus(event.status)}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {format(new Date(event.created_at), 'MMM d, yyyy HH:mm')}
+            </span>
+          </p>
+          {event.note && <p className="text-sm text-gray-600 dark:text-gray-300">{event.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RedemptionTimeline;
@@ -0,0 +1,421 @@
+import { useEffect, useRef, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { MapPin, Clock, Camera, Loader2, CheckCircle, LocateFixed, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { createUtilsToast } from "@/lib/utils";
+import { getCollectionTokensForWasteSize } from "@/utils/rewardUtils";
+import { wasteCategoryLabel } from "@/constants/wasteCategories";
+import {
+  CLAIM_DURATION_HOURS,
+  CollectableReport,
+  EXPANDED_RADIUS_KM,
+  GeoPoint,
+  NEARBY_RADIUS_KM,
+  claimWasteReport,
+  completeWasteReportCollection,
+  fetchCollectableReports,
+  releaseWasteReportClaim
+} from "@/utils/reportUtils";
+
+const searchRadius = (point: GeoPoint | null, expanded: boolean) =>
+  point ? { point, radiusKm: expanded ? EXPANDED_RADIUS_KM : NEARBY_RADIUS_KM } : null;
+
+const ReportCollectionQueue = () => {
+  const { user } = useAuth();
+  const [reports, setReports] = useState<CollectableReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [area, setArea] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [myLocation, setMyLocation] = useState<GeoPoint | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [pendingReportId, setPendingReportId] = useState<string | null>(null);
+  const [collectingReport, setCollectingReport] = useState<CollectableReport | null>(null);
+  const [afterImage, setAfterImage] = useState<File | null>(null);
+  const [afterPreview, setAfterPreview] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const afterInputRef = useRef<HTMLInputElement>(null);
+
+  // Hazardous reports can't be claimed; they are listed separately with a warning
+  const collectableReports = reports.filter(report => !report.hazardous);
+  const hazardousReports = reports.filter(report => report.hazardous);
+
+  // Use the area from the user's profile as "near me"
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchArea = async () => {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('location')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching profile location:", error);
+      }
+      setArea(data?.location?.trim() || null);
+    };
+
+    fetchArea();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadReports = async () => {
+      setIsLoading(true);
+      setReports(await fetchCollectableReports(user.id, expanded ? null : area, searchRadius(myLocation, expanded)));
+      setIsLoading(false);
+    };
+
+    loadReports();
+
+    const channel = supabase
+      .channel('public:waste_reports')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'waste_reports'
+      }, () => {
+        loadReports();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, area, expanded, myLocation]);
+
+  const refresh = async () => {
+    if (!user) return;
+    setReports(await fetchCollectableReports(user.id, expanded ? null : area, searchRadius(myLocation, expanded)));
+  };
+
+  // Search by distance from the device instead of the profile area
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      createUtilsToast.error("Location unavailable", "Your browser doesn't support geolocation.");
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setMyLocation({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setExpanded(false);
+        setLocating(false);
+      },
+      (error) => {
+        console.error("Geolocation error:", error);
+        createUtilsToast.error("Location unavailable", "Allow location access to find reports near you.");
+        setLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 15000 }
+    );
+  };
+
+  const handleClaim = async (report: CollectableReport) => {
+    setPendingReportId(report.id);
+    const { expiresAt, error } = await claimWasteReport(report.id);
+    setPendingReportId(null);
+
+    if (error) {
+      createUtilsToast.error("Could not claim report", error);
+    } else {
+      createUtilsToast.success(
+        "Report claimed",
+        `It's reserved for you until ${format(new Date(expiresAt), 'HH:mm')}. Upload an after photo once it's cleaned up.`
+      );
+    }
+    refresh();
+  };
+
+  const handleRelease = async (report: CollectableReport) => {
+    setPendingReportId(report.id);
+    const { error } = await releaseWasteReportClaim(report.id);
+    setPendingReportId(null);
+
+    if (error) {
+      createUtilsToast.error("Could not release claim", error);
+    } else {
+      createUtilsToast.info("Claim released", "The report is available to other collectors again.");
+    }
+    refresh();
+  };
+
+  const closeCollectDialog = () => {
+    setCollectingReport(null);
+    setAfterImage(null);
+    setAfterPreview(null);
+  };
+
+  const handleAfterImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setAfterImage(file);
+    const reader = new FileReader();
+    reader.onloadend = () => setAfterPreview(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleMarkCollected = async () => {
+    if (!collectingReport || !afterImage || !user) return;
+
+    setSubmitting(true);
+    const { error, tokensAwarded } = await completeWasteReportCollection(collectingReport, afterImage);
+    setSubmitting(false);
+
+    if (error) {
+      createUtilsToast.error("Could not mark as collected", error);
+      return;
+    }
+
+    createUtilsToast.success(
+      "Marked as collected",
+      tokensAwarded > 0
+        ? `Thanks for cleaning up! You've earned ${tokensAwarded} tokens.`
+        : "Thanks for cleaning up!"
+    );
+    closeCollectDialog();
+    refresh();
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+        <h2 className="text-2xl font-semibold">Recent Waste Reports</h2>
+        <div className="flex items-center gap-3">
+          {myLocation ? (
+            <p className="text-sm text-gray-500">
+              Showing reports within {expanded ? EXPANDED_RADIUS_KM : NEARBY_RADIUS_KM} km of you
+            </p>
+          ) : area && (
+            <p className="text-sm text-gray-500">
+              {expanded ? "Showing reports from all areas" : `Showing reports near ${area}`}
+            </p>
+          )}
+          {!myLocation && (
+            <Button variant="outline" size="sm" onClick={handleUseMyLocation} disabled={locating}>
+              {locating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LocateFixed className="mr-2 h-4 w-4" />}
+              Use my location
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-600">Loading reports...</div>
+      ) : collectableReports.length === 0 && hazardousReports.length === 0 ? (
+        <div className="bg-eco-light rounded-lg p-6 text-center">
+          <p className="text-gray-700 mb-4">
+            Currently, there are no individual waste reports available for collection in your area.
+          </p>
+          {(area || myLocation) && !expanded && (
+            <Button
+              variant="outline"
+              className="border-eco text-eco hover:bg-eco-light hover:text-eco-dark"
+              onClick={() => setExpanded(true)}
+            >
+              Expand Search Area
+            </Button>
+          )}
+        </div>
+      ) : (
+        <>
+          {hazardousReports.length > 0 && (
+            <Alert variant="destructive" className="mb-6">
+              <AlertTitle className="flex items-center">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Hazardous waste nearby: do not collect
+              </AlertTitle>
+              <AlertDescription className="text-sm mt-1">
+                <p>
+                  These reports need special handling and have been flagged for the local authority.
+                  Keep your distance and don't try to move them.
+                </p>
+                <ul className="list-disc pl-5 mt-2 space-y-1">
+                  {hazardousReports.map((report) => (
+                    <li key={report.id}>
+                      <span className="font-medium">{report.title}</span>, {report.location}
+                      {report.waste_categories.length > 0 && (
+                        <> ({report.waste_categories.map(wasteCategoryLabel).join(", ")})</>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+            {collectableReports.map((report) => {
+              const isMine = report.user_id === user?.id;
+              const isClaimedByMe = report.status === 'claimed' && report.claimed_by === user?.id;
+
+              return (
+                <Card key={report.id}>
+                  {report.image_url && (
+                    <img
+                      src={report.thumbnail_url || report.image_url}
+                      alt={report.title}
+                      className="w-full h-40 object-cover rounded-t-lg"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = '/placeholder.svg';
+                      }}
+                    />
+                  )}
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle>{report.title}</CardTitle>
+                        <CardDescription className="flex items-center mt-1">
+                          <MapPin className="h-3.5 w-3.5 mr-1" />
+                          {report.location}
+                        </CardDescription>
+                      </div>
+                      <Badge className="bg-eco hover:bg-eco-dark">{report.waste_size}</Badge>
+                    </div>
+                    {report.waste_categories.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {report.waste_categories.map((category) => (
+                          <Badge key={category} variant="outline">{wasteCategoryLabel(category)}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </CardHeader>
+
+                  <CardContent>
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Clock className="h-4 w-4 mr-2 text-gray-500" />
+                      Reported {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                    </div>
+                    {report.distance_km !== undefined && (
+                      <div className="flex items-center text-sm text-gray-600 mt-1">
+                        <MapPin className="h-4 w-4 mr-2 text-gray-500" />
+                        {report.distance_km < 1
+                          ? `${Math.round(report.distance_km * 1000)} m away`
+                          : `${report.distance_km.toFixed(1)} km away`}
+                      </div>
+                    )}
+                    {isClaimedByMe && report.claim_expires_at && (
+                      <p className="text-sm text-eco-dark mt-2">
+                        Claimed by you until {format(new Date(report.claim_expires_at), 'MMM d, HH:mm')}
+                      </p>
+                    )}
+                  </CardContent>
+
+                  <CardFooter className="gap-2">
+                    {isMine ? (
+                      <Button className="w-full" variant="outline" disabled>
+                        Your report
+                      </Button>
+                    ) : isClaimedByMe ? (
+                      <>
+                        <Button
+                          className="flex-1 bg-eco hover:bg-eco-dark"
+                          onClick={() => setCollectingReport(report)}
+                          disabled={pendingReportId === report.id}
+                        >
+                          <Camera className="mr-2 h-4 w-4" />
+                          Mark Collected
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleRelease(report)}
+                          disabled={pendingReportId === report.id}
+                        >
+                          Release
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        className="w-full bg-eco hover:bg-eco-dark"
+                        onClick={() => handleClaim(report)}
+                        disabled={pendingReportId === report.id}
+                      >
+                        {pendingReportId === report.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Claim for {CLAIM_DURATION_HOURS} hours
+                      </Button>
+                    )}
+                  </CardFooter>
+                </Card>
+              );
+            })}
+          </div>
+          {area && !expanded && (
+            <div className="text-center">
+              <Button
+                variant="outline"
+                className="border-eco text-eco hover:bg-eco-light hover:text-eco-dark"
+                onClick={() => setExpanded(true)}
+              >
+                Expand Search Area
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* After photo dialog */}
+      <Dialog open={!!collectingReport} onOpenChange={(open) => !open && closeCollectDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Mark as Collected</DialogTitle>
+            <DialogDescription>
+              Take an "after" photo of {collectingReport?.location} from the same spot as the original report, showing the waste has been cleaned up.
+              Once it's verified you'll earn {getCollectionTokensForWasteSize(collectingReport?.waste_size || "")} tokens.
+            </DialogDescription>
+          </DialogHeader>
+
+          {afterPreview ? (
+            <img src={afterPreview} alt="After cleanup" className="rounded border object-cover h-48 w-full" />
+          ) : (
+            <div
+              className="border-2 border-dashed border-eco rounded-xl p-8 text-center cursor-pointer hover:border-eco-dark bg-eco-light/20"
+              onClick={() => afterInputRef.current?.click()}
+            >
+              <Camera className="h-8 w-8 text-eco mx-auto mb-2" />
+              <p className="text-sm text-gray-600">Take or upload an after photo</p>
+            </div>
+          )}
+          <input
+            ref={afterInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={handleAfterImageChange}
+          />
+
+          <DialogFooter>
+            {afterPreview && (
+              <Button variant="outline" onClick={() => afterInputRef.current?.click()} disabled={submitting}>
+                Retake
+              </Button>
+            )}
+            <Button
+              className="bg-eco hover:bg-eco-dark"
+              onClick={handleMarkCollected}
+              disabled={!afterImage || submitting}
+            >
+              {submitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle className="mr-2 h-4 w-4" />
+              )}
+              {submitting ? "Verifying..." : "Submit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReportCollectionQueue;
@@ -0,0 +1,44 @@
+import { useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { createUtilsToast } from "@/lib/utils";
+import { DRAFT_SYNC_TAG } from "@/lib/serviceWorker";
+import { syncReportDrafts } from "@/utils/draftUtils";
+
+// Sends saved report drafts on sign-in, when the browser comes back online,
+// and when the service worker's background sync fires. Renders nothing.
+const ReportDraftSync = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const sync = async () => {
+      const submitted = await syncReportDrafts(user.id);
+      if (submitted.length > 0) {
+        createUtilsToast.success(
+          submitted.length === 1 ? "Saved report sent" : `${submitted.length} saved reports sent`,
+          "They are now waiting for review."
+        );
+      }
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === DRAFT_SYNC_TAG) {
+        sync();
+      }
+    };
+
+    sync();
+    window.addEventListener('online', sync);
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+
+    return () => {
+      window.removeEventListener('online', sync);
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+    };
+  }, [user]);
+
+  return null;
+};
+
+export default ReportDraftSync;
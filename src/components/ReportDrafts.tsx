@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { CloudOff, Loader2, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { createUtilsToast } from "@/lib/utils";
+import { getTokensForWasteSize } from "@/utils/rewardUtils";
+import {
+  DRAFTS_CHANGED_EVENT,
+  ReportDraft,
+  deleteReportDraft,
+  listReportDrafts,
+  submitReportDraft
+} from "@/utils/draftUtils";
+
+interface ReportDraftsProps {
+  // The draft currently loaded into the report form, if any
+  activeDraftId: string | null;
+  onEdit: (draft: ReportDraft) => void;
+}
+
+const ReportDrafts = ({ activeDraftId, onEdit }: ReportDraftsProps) => {
+  const { user } = useAuth();
+  const [drafts, setDrafts] = useState<ReportDraft[]>([]);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadDrafts = async () => setDrafts(await listReportDrafts(user.id));
+
+    loadDrafts();
+    window.addEventListener(DRAFTS_CHANGED_EVENT, loadDrafts);
+
+    return () => {
+      window.removeEventListener(DRAFTS_CHANGED_EVENT, loadDrafts);
+    };
+  }, [user]);
+
+  // Object URLs for the thumbnails, released when the list changes
+  const thumbnails = useMemo(
+    () => Object.fromEntries(drafts.map(draft => [draft.id, URL.createObjectURL(draft.photos[0].thumbnail.blob)])),
+    [drafts]
+  );
+
+  useEffect(() => () => {
+    Object.values(thumbnails).forEach(url => URL.revokeObjectURL(url));
+  }, [thumbnails]);
+
+  const handleSend = async (draft: ReportDraft) => {
+    setSendingId(draft.id);
+    const result = await submitReportDraft(draft);
+    setSendingId(null);
+
+    if (result.status === 'submitted') {
+      createUtilsToast.success(
+        "Report submitted for review!",
+        `You'll earn ${getTokensForWasteSize(result.report.waste_size)} tokens once an admin approves your report.`
+      );
+    } else {
+      createUtilsToast.error("Could not send report", result.error);
+    }
+  };
+
+  const handleDelete = async (draft: ReportDraft) => {
+    try {
+      await deleteReportDraft(draft.id);
+    } catch (err) {
+      console.error("Error deleting draft:", err);
+      createUtilsToast.error("Could not delete draft", "Please try again");
+    }
+  };
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6 border-eco/10">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CloudOff className="h-5 w-5 text-gray-500" />
+          Saved on this device
+        </CardTitle>
+        <CardDescription>
+          Reports that couldn't be sent yet. Queued reports are sent automatically when you're online.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {drafts.map((draft) => (
+          <div key={draft.id} className="flex gap-3 rounded-md border p-3">
+            <img
+              src={thumbnails[draft.id]}
+              alt={draft.fields.title}
+              className="h-16 w-16 rounded object-cover flex-shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-medium truncate">{draft.fields.title || "Untitled report"}</p>
+                {draft.status === 'queued' ? (
+                  <Badge variant="secondary">Queued</Badge>
+                ) : (
+                  <Badge variant="destructive">Needs attention</Badge>
+                )}
+                {draft.id === activeDraftId && <Badge variant="outline">Editing</Badge>}
+              </div>
+              <p className="text-xs text-gray-500 truncate">{draft.fields.location}</p>
+              <p className="text-xs text-gray-500">
+                Saved {formatDistanceToNow(new Date(draft.createdAt), { addSuffix: true })}
+                {draft.photos.length > 1 && ` · ${draft.photos.length} photos`}
+                {draft.attempts > 0 && ` · ${draft.attempts} attempt${draft.attempts === 1 ? '' : 's'}`}
+              </p>
+              {draft.lastError && <p className="text-xs text-red-600 mt-1">{draft.lastError}</p>}
+            </div>
+            <div className="flex flex-col gap-1">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => handleSend(draft)}
+                disabled={sendingId !== null}
+              >
+                {sendingId === draft.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => onEdit(draft)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => handleDelete(draft)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReportDrafts;
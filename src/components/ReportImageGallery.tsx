@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { ReportPhotoRow, fetchReportImages } from "@/utils/reportUtils";
+
+interface ReportImageGalleryProps {
+  reportId: string;
+  // The report's cover image, shown until its photos have loaded
+  fallbackUrl: string | null;
+  alt: string;
+  // Called with the loaded photos, e.g. to label verifications by photo
+  onLoad?: (photos: ReportPhotoRow[]) => void;
+}
+
+// A report's photos: the selected one large, with a strip of thumbnails
+// underneath when there is more than one
+const ReportImageGallery = ({ reportId, fallbackUrl, alt, onLoad }: ReportImageGalleryProps) => {
+  const [photos, setPhotos] = useState<ReportPhotoRow[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPhotos = async () => {
+      const data = await fetchReportImages(reportId);
+      if (cancelled) return;
+      setPhotos(data);
+      setSelectedIndex(0);
+      onLoad?.(data);
+    };
+
+    loadPhotos();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reportId]);
+
+  const mainUrl = photos[selectedIndex]?.image_url ?? fallbackUrl;
+
+  if (!mainUrl) {
+    return null;
+  }
+
+  return (
+    <div>
+      <img
+        src={mainUrl}
+        alt={alt}
+        className="rounded border object-cover h-48 w-full"
+        onError={(e) => {
+          (e.target as HTMLImageElement).src = '/placeholder.svg';
+        }}
+      />
+      {photos.length > 1 && (
+        <div className="mt-2 flex gap-2 overflow-x-auto">
+          {photos.map((photo, index) => (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setSelectedIndex(index)}
+              className={`h-12 w-12 flex-shrink-0 overflow-hidden rounded border-2 ${
+                index === selectedIndex ? "border-eco" : "border-transparent"
+              }`}
+            >
+              <img
+                src={photo.thumbnail_url || photo.image_url}
+                alt={`${alt} (photo ${index + 1})`}
+                className="h-full w-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportImageGallery;
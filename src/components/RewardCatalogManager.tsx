@@ -0,0 +1,635 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Archive, ArchiveRestore, ArrowDown, ArrowUp, Download, Edit, ImagePlus, Loader2, Plus, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { createUtilsToast } from "@/lib/utils";
+import {
+  DEFAULT_REWARD_IMAGE,
+  Reward,
+  RewardInput,
+  fetchRewardCatalog,
+  fetchWaitlistCounts,
+  isLowStock,
+  reorderRewards,
+  rewardUnavailableReason,
+  saveReward,
+  setRewardArchived,
+  setRewardAvailable,
+  updateRewardStock,
+  uploadRewardImage
+} from "@/utils/rewardUtils";
+import {
+  VoucherCounts,
+  fetchIssuedVouchers,
+  fetchVoucherCounts,
+  importRewardVouchers,
+  issuedVouchersToCsv,
+  parseVoucherCsv
+} from "@/utils/voucherUtils";
+
+const emptyReward: RewardInput = {
+  title: "",
+  description: "",
+  token_cost: 50,
+  image_url: "",
+  available: true,
+  delivery_method: "physical",
+  stock_quantity: null,
+  low_stock_threshold: 5,
+  per_user_limit: null,
+  starts_at: null,
+  ends_at: null
+};
+
+// Dates are edited as whole days: a reward starts at the beginning of its
+// first day and ends at the end of its last
+const toDateInput = (timestamp: string | null) => (timestamp ? format(new Date(timestamp), 'yyyy-MM-dd') : "");
+const fromDateInput = (value: string, endOfDay = false) =>
+  value ? new Date(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}`).toISOString() : null;
+
+const RewardCatalogManager = () => {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [waitlistCounts, setWaitlistCounts] = useState<Record<string, number>>({});
+  const [voucherCounts, setVoucherCounts] = useState<Record<string, VoucherCounts>>({});
+  // The voucher reward whose codes are being imported
+  const [importingReward, setImportingReward] = useState<Reward | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<RewardInput>(emptyReward);
+  // null while creating a reward; undefined while the editor is closed
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined);
+  // Stock when the editor opened; saving applies the change from it
+  const [loadedStock, setLoadedStock] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const voucherInputRef = useRef<HTMLInputElement>(null);
+
+  const loadRewards = async () => {
+    setIsLoading(true);
+    setRewards(await fetchRewardCatalog(true));
+    setWaitlistCounts(await fetchWaitlistCounts());
+    setVoucherCounts(await fetchVoucherCounts());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadRewards();
+  }, []);
+
+  const openEditor = (reward: Reward | null) => {
+    setEditingId(reward ? reward.id : null);
+    setLoadedStock(reward ? reward.stock_quantity : null);
+    setForm(reward ? {
+      title: reward.title,
+      description: reward.description,
+      token_cost: reward.token_cost,
+      image_url: reward.image_url,
+      available: reward.available ?? true,
+      delivery_method: reward.delivery_method,
+      stock_quantity: reward.stock_quantity,
+      low_stock_threshold: reward.low_stock_threshold,
+      per_user_limit: reward.per_user_limit,
+      starts_at: reward.starts_at,
+      ends_at: reward.ends_at
+    } : emptyReward);
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    const { imageUrl, error } = await uploadRewardImage(file);
+    setUploading(false);
+
+    if (error || !imageUrl) {
+      createUtilsToast.error("Image upload failed", error || undefined);
+      return;
+    }
+
+    setForm(prev => ({ ...prev, image_url: imageUrl }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.title.trim() || !form.description.trim() || form.token_cost < 1) {
+      createUtilsToast.error("Missing details", "A reward needs a title, a description and a token cost.");
+      return;
+    }
+
+    if (form.starts_at && form.ends_at && form.ends_at <= form.starts_at) {
+      createUtilsToast.error("Invalid dates", "The end date must be after the start date.");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveReward(
+      editingId ?? null,
+      { ...form, title: form.title.trim(), description: form.description.trim() },
+      // After the last reward, wherever earlier reorders left the numbering
+      Math.max(0, ...rewards.map(reward => reward.sort_order)) + 1
+    );
+
+    if (error) {
+      setSaving(false);
+      createUtilsToast.error("Failed to save reward", error);
+      return;
+    }
+
+    // Voucher stock follows the imported codes
+    if (editingId && form.delivery_method !== "voucher" && form.stock_quantity !== loadedStock) {
+      const { error: stockError } = await updateRewardStock(editingId, form.stock_quantity, loadedStock);
+      if (stockError) {
+        setSaving(false);
+        createUtilsToast.error("Reward saved, but the stock wasn't updated", stockError);
+        loadRewards();
+        return;
+      }
+    }
+    setSaving(false);
+
+    createUtilsToast.success(editingId ? "Reward updated" : "Reward added");
+    setEditingId(undefined);
+    loadRewards();
+  };
+
+  const handleArchive = async (reward: Reward) => {
+    const archive = !reward.archived_at;
+    if (archive && !window.confirm(`Remove "${reward.title}" from the catalog?`)) return;
+
+    setBusyId(reward.id);
+    const { error } = await setRewardArchived(reward.id, archive);
+    setBusyId(null);
+
+    if (error) {
+      createUtilsToast.error(archive ? "Failed to archive reward" : "Failed to restore reward", error);
+      return;
+    }
+
+    createUtilsToast.success(archive ? "Reward archived" : "Reward restored");
+    loadRewards();
+  };
+
+  const handleToggleAvailable = async (reward: Reward, available: boolean) => {
+    setBusyId(reward.id);
+    const { error } = await setRewardAvailable(reward.id, available);
+    setBusyId(null);
+
+    if (error) {
+      createUtilsToast.error("Failed to update reward", error);
+      return;
+    }
+
+    setRewards(prev => prev.map(r => (r.id === reward.id ? { ...r, available } : r)));
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const reordered = [...rewards];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    // Show the new order straight away; reload if saving it fails
+    setRewards(reordered);
+    const { error } = await reorderRewards(reordered.map(r => r.id));
+
+    if (error) {
+      createUtilsToast.error("Failed to reorder rewards", error);
+      loadRewards();
+    }
+  };
+
+  const handleImportClick = (reward: Reward) => {
+    setImportingReward(reward);
+    voucherInputRef.current?.click();
+  };
+
+  const handleVoucherFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    const reward = importingReward;
+    if (!file || !reward) return;
+
+    const codes = parseVoucherCsv(await file.text());
+    if (codes.length === 0) {
+      createUtilsToast.error("No codes found", "Put one code per line, in the first column.");
+      return;
+    }
+
+    setBusyId(reward.id);
+    const { added, error } = await importRewardVouchers(reward.id, codes);
+    setBusyId(null);
+    setImportingReward(null);
+
+    if (error) {
+      createUtilsToast.error("Failed to import codes", error);
+      return;
+    }
+
+    const skipped = codes.length - added;
+    createUtilsToast.success(
+      `${added} codes added to ${reward.title}`,
+      skipped > 0 ? `${skipped} codes were already in the pool and were skipped.` : undefined
+    );
+    loadRewards();
+  };
+
+  const handleExport = async (reward: Reward) => {
+    setBusyId(reward.id);
+    const vouchers = await fetchIssuedVouchers(reward.id);
+    setBusyId(null);
+
+    if (!vouchers) {
+      createUtilsToast.error("Failed to export codes", "Please try again.");
+      return;
+    }
+
+    if (vouchers.length === 0) {
+      createUtilsToast.info("No codes issued yet");
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([issuedVouchersToCsv(reward.title, vouchers)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `issued-codes-${reward.title.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const numberOrNull = (value: string) => (value === "" ? null : Math.max(0, Math.floor(Number(value))));
+
+  const lowStockCount = rewards.filter(r => !r.archived_at && (isLowStock(r) || r.stock_quantity === 0)).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Reward Catalog</CardTitle>
+          {lowStockCount > 0 && (
+            <p className="text-sm text-amber-600 flex items-center mt-1">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              {lowStockCount} {lowStockCount === 1 ? "reward is" : "rewards are"} low on or out of stock
+            </p>
+          )}
+        </div>
+        <Button className="bg-eco hover:bg-eco-dark" onClick={() => openEditor(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add reward
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-eco"></div>
+          </div>
+        ) : rewards.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No rewards yet
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Order</TableHead>
+                  <TableHead>Reward</TableHead>
+                  <TableHead>Cost</TableHead>
+                  <TableHead>Stock</TableHead>
+                  <TableHead>Per user</TableHead>
+                  <TableHead>Offered</TableHead>
+                  <TableHead>Available</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rewards.map((reward, index) => {
+                  const unavailableReason = rewardUnavailableReason(reward);
+
+                  return (
+                    <TableRow key={reward.id} className={reward.archived_at ? "opacity-60" : undefined}>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            onClick={() => handleMove(index, -1)}
+                            disabled={index === 0}
+                            title="Move up"
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            onClick={() => handleMove(index, 1)}
+                            disabled={index === rewards.length - 1}
+                            title="Move down"
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <img
+                            src={reward.image_url || DEFAULT_REWARD_IMAGE}
+                            alt=""
+                            className="h-10 w-10 rounded object-cover border"
+                            onError={(e) => {
+                              (e.target as HTMLImageElement).src = DEFAULT_REWARD_IMAGE;
+                            }}
+                          />
+                          <div>
+                            <p className="font-medium">
+                              {reward.title}
+                              {reward.delivery_method === "voucher" && (
+                                <Badge variant="outline" className="ml-2">Voucher</Badge>
+                              )}
+                            </p>
+                            {reward.archived_at ? (
+                              <Badge variant="secondary">Archived</Badge>
+                            ) : unavailableReason && (
+                              <span className="text-xs text-gray-500">{unavailableReason}</span>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>{reward.token_cost}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col items-start gap-1">
+                          <span>{reward.stock_quantity ?? "Unlimited"}</span>
+                          {reward.stock_quantity === 0 ? (
+                            <Badge variant="destructive">Out of stock</Badge>
+                          ) : isLowStock(reward) && (
+                            <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Low stock</Badge>
+                          )}
+                          {reward.delivery_method === "voucher" && (
+                            <span className="text-xs text-gray-500">
+                              {voucherCounts[reward.id]?.issued ?? 0} codes issued
+                            </span>
+                          )}
+                          {waitlistCounts[reward.id] > 0 && (
+                            <span className="text-xs text-gray-500">{waitlistCounts[reward.id]} waiting</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{reward.per_user_limit ?? "No limit"}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {reward.starts_at || reward.ends_at ? (
+                          <>
+                            {reward.starts_at ? format(new Date(reward.starts_at), 'MMM d, yyyy') : "Now"}
+                            {" – "}
+                            {reward.ends_at ? format(new Date(reward.ends_at), 'MMM d, yyyy') : "open"}
+                          </>
+                        ) : (
+                          "Always"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={reward.available !== false}
+                          onCheckedChange={(checked) => handleToggleAvailable(reward, checked)}
+                          disabled={busyId === reward.id || !!reward.archived_at}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-eco text-eco hover:bg-eco-light hover:text-eco-dark"
+                            onClick={() => openEditor(reward)}
+                            title="Edit"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className={reward.archived_at ? undefined : "border-red-500 text-red-500 hover:bg-red-100"}
+                            onClick={() => handleArchive(reward)}
+                            disabled={busyId === reward.id}
+                            title={reward.archived_at ? "Restore" : "Archive"}
+                          >
+                            {reward.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </Button>
+                          {reward.delivery_method === "voucher" && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleImportClick(reward)}
+                                disabled={busyId === reward.id}
+                                title="Import codes (CSV)"
+                              >
+                                <Upload className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleExport(reward)}
+                                disabled={busyId === reward.id}
+                                title="Export issued codes (CSV)"
+                              >
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <input
+          ref={voucherInputRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          className="hidden"
+          onChange={handleVoucherFile}
+        />
+
+        {/* Create / edit reward */}
+        <Dialog open={editingId !== undefined} onOpenChange={(open) => !open && setEditingId(undefined)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingId ? "Edit reward" : "Add reward"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="flex gap-4">
+                <div className="shrink-0 space-y-2">
+                  <img
+                    src={form.image_url || DEFAULT_REWARD_IMAGE}
+                    alt=""
+                    className="h-28 w-28 rounded-md object-cover border"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src = DEFAULT_REWARD_IMAGE;
+                    }}
+                  />
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handleImageChange}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="w-28"
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={uploading}
+                  >
+                    {uploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ImagePlus className="h-4 w-4 mr-1" />}
+                    Image
+                  </Button>
+                </div>
+                <div className="flex-1 space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="reward-title">Title</Label>
+                    <Input
+                      id="reward-title"
+                      value={form.title}
+                      onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="reward-description">Description</Label>
+                    <Textarea
+                      id="reward-description"
+                      value={form.description}
+                      onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                      className="min-h-[70px] resize-none"
+                      required
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="reward-cost">Token cost</Label>
+                  <Input
+                    id="reward-cost"
+                    type="number"
+                    min={1}
+                    value={form.token_cost}
+                    onChange={(e) => setForm(prev => ({ ...prev, token_cost: Number(e.target.value) }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reward-delivery">Delivery</Label>
+                  <Select
+                    value={form.delivery_method}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, delivery_method: value as RewardInput['delivery_method'] }))}
+                  >
+                    <SelectTrigger id="reward-delivery">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="physical">Shipped</SelectItem>
+                      <SelectItem value="voucher">Voucher code</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reward-stock">Stock</Label>
+                  <Input
+                    id="reward-stock"
+                    type="number"
+                    min={0}
+                    value={form.stock_quantity ?? ""}
+                    onChange={(e) => setForm(prev => ({ ...prev, stock_quantity: numberOrNull(e.target.value) }))}
+                    placeholder={form.delivery_method === "voucher" ? "Unused codes" : "Unlimited"}
+                    disabled={form.delivery_method === "voucher"}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reward-low-stock">Low stock at</Label>
+                  <Input
+                    id="reward-low-stock"
+                    type="number"
+                    min={0}
+                    value={form.low_stock_threshold}
+                    onChange={(e) => setForm(prev => ({ ...prev, low_stock_threshold: numberOrNull(e.target.value) ?? 0 }))}
+                    disabled={form.stock_quantity === null && form.delivery_method !== "voucher"}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reward-limit">Per-user limit</Label>
+                  <Input
+                    id="reward-limit"
+                    type="number"
+                    min={1}
+                    value={form.per_user_limit ?? ""}
+                    onChange={(e) => setForm(prev => ({ ...prev, per_user_limit: numberOrNull(e.target.value) || null }))}
+                    placeholder="No limit"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reward-starts">Offered from</Label>
+                  <Input
+                    id="reward-starts"
+                    type="date"
+                    value={toDateInput(form.starts_at)}
+                    onChange={(e) => setForm(prev => ({ ...prev, starts_at: fromDateInput(e.target.value) }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reward-ends">Offered until</Label>
+                  <Input
+                    id="reward-ends"
+                    type="date"
+                    value={toDateInput(form.ends_at)}
+                    onChange={(e) => setForm(prev => ({ ...prev, ends_at: fromDateInput(e.target.value, true) }))}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pt-6">
+                  <Switch
+                    id="reward-available"
+                    checked={form.available !== false}
+                    onCheckedChange={(checked) => setForm(prev => ({ ...prev, available: checked }))}
+                  />
+                  <Label htmlFor="reward-available">Available</Label>
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingId(undefined)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="bg-eco hover:bg-eco-dark" disabled={saving || uploading}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingId ? "Save changes" : "Add reward"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RewardCatalogManager;
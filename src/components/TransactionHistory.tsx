@@ -1,6 +1,7 @@
 
 import { useState, useEffect } from "react";
-import { ArrowLeft, Coins, Loader2 } from "lucide-react";
+import { ArrowLeft, Coins, CornerDownRight, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import Layout from "@/components/Layout";
@@ -11,7 +12,9 @@ interface TokenTransaction {
   id: string;
   amount: number;
   description: string;
-  transaction_type: 'earned' | 'spent';
+  transaction_type: 'earned' | 'spent' | 'refund';
+  source_type: string | null;
+  source_id: string | null;
   created_at: string;
 }
 
@@ -24,6 +27,20 @@ const TransactionHistory = ({ onBack }: TransactionHistoryProps) => {
   const [transactions, setTransactions] = useState<TokenTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  
+  // Refunds are shown under the spend they give back
+  const spentSourceIds = new Set(
+    transactions.filter(t => t.transaction_type === 'spent' && t.source_id).map(t => `${t.source_type}:${t.source_id}`)
+  );
+  const refundsBySource: Record<string, TokenTransaction> = {};
+  for (const transaction of transactions) {
+    if (transaction.transaction_type === 'refund' && transaction.source_id) {
+      refundsBySource[`${transaction.source_type}:${transaction.source_id}`] = transaction;
+    }
+  }
+  const listedTransactions = transactions.filter(t =>
+    t.transaction_type !== 'refund' || !spentSourceIds.has(`${t.source_type}:${t.source_id}`)
+  );
 
   useEffect(() => {
     if (!user) return;
@@ -33,18 +50,19 @@ const TransactionHistory = ({ onBack }: TransactionHistoryProps) => {
         setLoading(true);
         const { data, error } = await supabase
           .from('token_transactions')
-          .select('id, amount, description, transaction_type, created_at')
+          .select('id, amount, description, transaction_type, source_type, source_id, created_at')
           .eq('user_id', user.id)
           .order('created_at', { ascending: false });
 
         if (error) throw error;
         
         // Remove duplicates based on description and amount combinations
+        // (ledger entries with different sources are never duplicates)
         const uniqueTransactions = [];
         const seen = new Set();
         
         for (const transaction of data) {
-          const key = `${transaction.description}-${transaction.amount}-${transaction.transaction_type}`;
+          const key = `${transaction.description}-${transaction.amount}-${transaction.transaction_type}-${transaction.source_id}`;
           if (!seen.has(key)) {
             seen.add(key);
             uniqueTransactions.push(transaction);
@@ -98,22 +116,48 @@ const TransactionHistory = ({ onBack }: TransactionHistoryProps) => {
               <div className="text-center py-8">
                 <p className="text-red-500 dark:text-red-400">{error}</p>
               </div>
-            ) : transactions.length > 0 ? (
+            ) : listedTransactions.length > 0 ? (
               <div className="space-y-4">
-                {transactions.map((transaction) => (
-                  <div key={transaction.id} className="flex items-center justify-between pb-4 border-b border-gray-200 dark:border-gray-700 last:border-b-0 last:pb-0">
-                    <div>
-                      <p className="font-medium text-gray-900 dark:text-white">{transaction.description}</p>
-                      <p className="text-sm text-gray-500 dark:text-gray-400">{formatDate(transaction.created_at)}</p>
-                    </div>
-                    <div className={`flex items-center ${transaction.transaction_type === 'earned' ? 'text-green-500' : 'text-red-500'}`}>
-                      <span className="font-medium">
-                        {transaction.transaction_type === 'earned' ? '+' : '-'}{transaction.amount}
-                      </span>
-                      <Coins className="ml-1 h-4 w-4" />
+                {listedTransactions.map((transaction) => {
+                  const refund = transaction.transaction_type === 'spent'
+                    ? refundsBySource[`${transaction.source_type}:${transaction.source_id}`]
+                    : undefined;
+                  
+                  return (
+                    <div key={transaction.id} className="pb-4 border-b border-gray-200 dark:border-gray-700 last:border-b-0 last:pb-0">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">
+                            {transaction.description}
+                            {transaction.transaction_type === 'refund' && (
+                              <Badge variant="outline" className="ml-2 text-green-600 border-green-300">Refund</Badge>
+                            )}
+                          </p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">{formatDate(transaction.created_at)}</p>
+                        </div>
+                        <div className={`flex items-center ${transaction.transaction_type === 'spent' ? 'text-red-500' : 'text-green-500'}`}>
+                          <span className="font-medium">
+                            {transaction.transaction_type === 'spent' ? '-' : '+'}{transaction.amount}
+                          </span>
+                          <Coins className="ml-1 h-4 w-4" />
+                        </div>
+                      </div>
+                      {refund && (
+                        <div className="flex items-center justify-between mt-2 ml-4 text-sm">
+                          <div className="flex items-center text-gray-600 dark:text-gray-300">
+                            <CornerDownRight className="h-4 w-4 mr-1 text-gray-400" />
+                            <Badge variant="outline" className="mr-2 text-green-600 border-green-300">Refund</Badge>
+                            {formatDate(refund.created_at)}
+                          </div>
+                          <div className="flex items-center text-green-500">
+                            <span className="font-medium">+{refund.amount}</span>
+                            <Coins className="ml-1 h-4 w-4" />
+                          </div>
+                        </div>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             ) : (
               <div className="text-center py-8">
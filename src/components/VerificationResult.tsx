@@ -0,0 +1,65 @@
+import { format } from "date-fns";
+import { CheckCircle, HelpCircle, XCircle } from "lucide-react";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { StoredVerification, toImageVerification } from "@/utils/verificationUtils";
+import { wasteCategoryLabel } from "@/constants/wasteCategories";
+
+interface VerificationResultProps {
+  stored: StoredVerification;
+  showRawResponse?: boolean;
+  // Which of the report's photos was checked, e.g. "Photo 2"
+  photoLabel?: string;
+}
+
+const VerificationResult = ({ stored, showRawResponse = false, photoLabel }: VerificationResultProps) => {
+  const verification = toImageVerification(stored);
+  const passed = verification.isWaste && verification.isAuthenticPhoto;
+
+  return (
+    <Alert variant={passed ? "default" : "destructive"}>
+      <AlertTitle className="flex items-center">
+        {passed
+          ? <CheckCircle className="h-4 w-4 mr-2" />
+          : verification.inconclusive
+          ? <HelpCircle className="h-4 w-4 mr-2" />
+          : <XCircle className="h-4 w-4 mr-2" />}
+        {verification.inconclusive
+          ? "Inconclusive"
+          : !verification.isAuthenticPhoto
+          ? "Not a genuine photo"
+          : verification.isWaste
+          ? `Verified as ${verification.wasteSize || 'small'} waste`
+          : "Not verified as waste"}
+        <span className="ml-2 font-normal text-xs">({verification.confidence}% confidence)</span>
+      </AlertTitle>
+      <AlertDescription className="text-sm mt-1">
+        <p>{verification.reason}</p>
+        {stored.categories.length > 0 && (
+          <p className="text-xs mt-1">
+            Detected: {stored.categories
+              .map(({ category, confidence }) => `${wasteCategoryLabel(category)} (${Math.round(confidence)}%)`)
+              .join(', ')}
+          </p>
+        )}
+        {stored.review_notes.length > 0 && (
+          <ul className="text-xs mt-1 list-disc pl-4">
+            {stored.review_notes.map(note => <li key={note}>Check by hand: {note}</li>)}
+          </ul>
+        )}
+        <p className="text-xs text-gray-500 mt-1">
+          {photoLabel && `${photoLabel} · `}
+          {stored.source === 'submission' ? "At submission" : "Re-run"} · {stored.model} ·{" "}
+          {format(new Date(stored.created_at), 'MMM d, yyyy HH:mm')}
+        </p>
+        {showRawResponse && stored.raw_response && (
+          <details className="mt-1">
+            <summary className="text-xs cursor-pointer text-gray-500">Raw model response</summary>
+            <pre className="text-xs whitespace-pre-wrap mt-1 max-h-40 overflow-y-auto">{stored.raw_response}</pre>
+          </details>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default VerificationResult;
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { MapContainer, TileLayer, CircleMarker, Tooltip, useMap } from "react-leaflet";
+import { latLngBounds } from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { Calendar, Clock, MapPin, User } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import ReportImageGallery from "@/components/ReportImageGallery";
+import { supabase } from "@/lib/supabase";
+import { wasteCategoryLabel } from "@/constants/wasteCategories";
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/constants/map";
+import {
+  EVENT_MARKER_COLOR,
+  HAZARDOUS_MARKER_COLOR,
+  MapDateFilter,
+  MapEvent,
+  MapReport,
+  MapStatusFilter,
+  WASTE_SIZE_COLORS,
+  fetchMapEvents,
+  fetchMapReports
+} from "@/utils/mapUtils";
+
+type Selection = { kind: 'report'; report: MapReport } | { kind: 'event'; event: MapEvent } | null;
+
+// Zoom the map to whatever is currently plotted
+const FitToMarkers = ({ points }: { points: [number, number][] }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(latLngBounds(points), { padding: [30, 30], maxZoom: 15 });
+  }, [map, points]);
+
+  return null;
+};
+
+const WasteMap = () => {
+  const [statusFilter, setStatusFilter] = useState<MapStatusFilter>('all');
+  const [dateFilter, setDateFilter] = useState<MapDateFilter>(30);
+  const [reports, setReports] = useState<MapReport[]>([]);
+  const [events, setEvents] = useState<MapEvent[]>([]);
+  const [selection, setSelection] = useState<Selection>(null);
+
+  useEffect(() => {
+    const loadMarkers = async () => {
+      const [mapReports, mapEvents] = await Promise.all([
+        fetchMapReports(statusFilter, dateFilter),
+        fetchMapEvents(statusFilter, dateFilter)
+      ]);
+      setReports(mapReports);
+      setEvents(mapEvents);
+    };
+
+    loadMarkers();
+
+    const channel = supabase
+      .channel('map-markers')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'waste_reports' }, loadMarkers)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'collection_events' }, loadMarkers)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [statusFilter, dateFilter]);
+
+  const points = useMemo<[number, number][]>(() => [
+    ...reports.map((r): [number, number] => [r.latitude, r.longitude]),
+    ...events.map((e): [number, number] => [e.latitude, e.longitude])
+  ], [reports, events]);
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap gap-2 mb-3">
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as MapStatusFilter)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Reports and events</SelectItem>
+            <SelectItem value="reported">Open reports</SelectItem>
+            <SelectItem value="claimed">Claimed reports</SelectItem>
+            <SelectItem value="events">Active events</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={dateFilter === null ? 'any' : String(dateFilter)}
+          onValueChange={(value) => setDateFilter(value === 'any' ? null : Number(value) as MapDateFilter)}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="any">Any time</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-3 text-xs text-gray-600 ml-auto">
+          {Object.entries(WASTE_SIZE_COLORS).map(([size, color]) => (
+            <span key={size} className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+              {size}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: HAZARDOUS_MARKER_COLOR }} />
+            hazardous
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: EVENT_MARKER_COLOR }} />
+            event
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-full border-2 border-dashed border-gray-500" />
+            claimed
+          </span>
+        </div>
+      </div>
+
+      <div className="rounded-lg overflow-hidden h-[300px] w-full relative z-0">
+        <MapContainer center={DEFAULT_MAP_CENTER} zoom={DEFAULT_MAP_ZOOM} className="h-full w-full">
+          <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+          <FitToMarkers points={points} />
+
+          {reports.map((report) => (
+            <CircleMarker
+              key={report.id}
+              center={[report.latitude, report.longitude]}
+              radius={8}
+              pathOptions={{
+                color: report.status === 'claimed' ? "#6b7280" : "#ffffff",
+                weight: 2,
+                dashArray: report.status === 'claimed' ? "4 3" : undefined,
+                fillColor: report.hazardous
+                  ? HAZARDOUS_MARKER_COLOR
+                  : WASTE_SIZE_COLORS[report.waste_size] || WASTE_SIZE_COLORS.small,
+                fillOpacity: report.status === 'claimed' ? 0.5 : 0.9
+              }}
+              eventHandlers={{ click: () => setSelection({ kind: 'report', report }) }}
+            >
+              <Tooltip>{report.title}</Tooltip>
+            </CircleMarker>
+          ))}
+
+          {events.map((event) => (
+            <CircleMarker
+              key={event.id}
+              center={[event.latitude, event.longitude]}
+              radius={11}
+              pathOptions={{ color: "#ffffff", weight: 2, fillColor: EVENT_MARKER_COLOR, fillOpacity: 0.9 }}
+              eventHandlers={{ click: () => setSelection({ kind: 'event', event }) }}
+            >
+              <Tooltip>{event.title}</Tooltip>
+            </CircleMarker>
+          ))}
+        </MapContainer>
+      </div>
+
+      {points.length === 0 && (
+        <p className="text-sm text-gray-500 mt-2">Nothing to show on the map for these filters.</p>
+      )}
+
+      <Dialog open={selection !== null} onOpenChange={(open) => !open && setSelection(null)}>
+        <DialogContent className="sm:max-w-lg">
+          {selection?.kind === 'report' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selection.report.title}</DialogTitle>
+                <DialogDescription className="flex items-center">
+                  <MapPin className="h-3.5 w-3.5 mr-1" />
+                  {selection.report.location}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{selection.report.waste_size}</Badge>
+                  <Badge variant="outline">{selection.report.status === 'claimed' ? "Claimed" : "Open"}</Badge>
+                  {selection.report.waste_categories.map((category) => (
+                    <Badge key={category} variant="outline">{wasteCategoryLabel(category)}</Badge>
+                  ))}
+                </div>
+                {selection.report.hazardous && (
+                  <Alert variant="destructive">
+                    <AlertDescription className="text-sm">
+                      Hazardous waste: needs special handling and isn't open for volunteer collection. Please keep your distance.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {selection.report.image_url && (
+                  <ReportImageGallery
+                    reportId={selection.report.id}
+                    fallbackUrl={selection.report.image_url}
+                    alt={selection.report.title}
+                  />
+                )}
+                {selection.report.description && (
+                  <p className="text-sm text-gray-600">{selection.report.description}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Reported {format(new Date(selection.report.created_at), 'MMM d, yyyy HH:mm')}
+                </p>
+              </div>
+            </>
+          )}
+
+          {selection?.kind === 'event' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selection.event.title}</DialogTitle>
+                <DialogDescription className="flex items-center">
+                  <MapPin className="h-3.5 w-3.5 mr-1" />
+                  {selection.event.location}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center">
+                  <Calendar className="h-4 w-4 mr-2 text-gray-500" />
+                  {selection.event.date}
+                </div>
+                {selection.event.time_range && (
+                  <div className="flex items-center">
+                    <Clock className="h-4 w-4 mr-2 text-gray-500" />
+                    {selection.event.time_range}
+                  </div>
+                )}
+                <div className="flex items-center">
+                  <User className="h-4 w-4 mr-2 text-gray-500" />
+                  {selection.event.participants ?? 0}
+                  {selection.event.capacity ? ` / ${selection.event.capacity}` : ""} participants
+                </div>
+                <p className="text-xs text-gray-500 pt-2">Join this event from the list below.</p>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WasteMap;
@@ -0,0 +1,9 @@
+// Map tiles. Defaults to OpenStreetMap; set VITE_MAP_TILE_URL (and the
+// attribution) to point at a local tile server, e.g. in tests.
+export const MAP_TILE_URL = import.meta.env.VITE_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const MAP_TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Where the map opens when there is nothing to fit it to
+export const DEFAULT_MAP_CENTER: [number, number] = [20.5937, 78.9629];
+export const DEFAULT_MAP_ZOOM = 5;
@@ -0,0 +1,32 @@
+// Waste types a report can be tagged with, in display order. Keep in sync with
+// supabase/functions/_shared/modelOutput.ts and the check on
+// waste_reports.waste_categories.
+export const WASTE_CATEGORIES = [
+  { value: 'plastic_bottles', label: "Plastic bottles" },
+  { value: 'plastic_bags', label: "Plastic bags & film" },
+  { value: 'packaging', label: "Food packaging" },
+  { value: 'glass', label: "Glass" },
+  { value: 'metal', label: "Metal & cans" },
+  { value: 'paper', label: "Paper & cardboard" },
+  { value: 'textiles', label: "Textiles" },
+  { value: 'e_waste', label: "E-waste" },
+  { value: 'construction_debris', label: "Construction debris" },
+  { value: 'organic', label: "Organic" },
+  { value: 'bulky', label: "Furniture & bulky items" },
+  { value: 'hazardous', label: "Hazardous (chemicals, batteries, asbestos)" },
+  { value: 'medical', label: "Medical (needles, syringes)" },
+  { value: 'mixed', label: "Mixed litter" }
+];
+
+// Categories that need special handling: such reports are never listed for
+// volunteer collection
+export const HAZARDOUS_WASTE_CATEGORIES = ['hazardous', 'medical'];
+
+// Detected categories at or above this confidence are preselected
+export const CATEGORY_CONFIDENCE_THRESHOLD = 50;
+
+export const wasteCategoryLabel = (value: string) =>
+  WASTE_CATEGORIES.find(category => category.value === value)?.label ?? value;
+
+export const hasHazardousCategory = (categories: string[] | null | undefined) =>
+  (categories ?? []).some(category => HAZARDOUS_WASTE_CATEGORIES.includes(category));
@@ -29,10 +29,13 @@ export type Database = {
       }
       collection_events: {
         Row: {
+          capacity: number | null
           created_at: string | null
           date: string
           id: string
+          latitude: number | null
           location: string
+          longitude: number | null
           participants: number | null
           status: string
           time_range: string | null
@@ -42,10 +45,13 @@ export type Database = {
           waste_small: number | null
         }
         Insert: {
+          capacity?: number | null
           created_at?: string | null
           date: string
           id?: string
+          latitude?: number | null
           location: string
+          longitude?: number | null
           participants?: number | null
           status?: string
           time_range?: string | null
@@ -55,10 +61,13 @@ export type Database = {
           waste_small?: number | null
         }
         Update: {
+          capacity?: number | null
           created_at?: string | null
           date?: string
           id?: string
+          latitude?: number | null
           location?: string
+          longitude?: number | null
           participants?: number | null
           status?: string
           time_range?: string | null
@@ -69,28 +78,117 @@ export type Database = {
         }
         Relationships: []
       }
+      event_participants: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_participants_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "collection_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geocode_cache: {
+        Row: {
+          address: string
+          created_at: string
+          lat_key: number
+          lng_key: number
+          provider: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          lat_key: number
+          lng_key: number
+          provider: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          lat_key?: number
+          lng_key?: number
+          provider?: string
+        }
+        Relationships: []
+      }
+      geocoder_rate_limits: {
+        Row: {
+          last_call_at: string
+          provider: string
+        }
+        Insert: {
+          last_call_at?: string
+          provider: string
+        }
+        Update: {
+          last_call_at?: string
+          provider?: string
+        }
+        Relationships: []
+      }
       redeemed_rewards: {
         Row: {
+          contact_phone: string | null
           created_at: string | null
+          delivery_instructions: string | null
           id: string
+          recipient_name: string | null
           reward_id: string
+          shipping_address: string | null
           status: string
+          stock_decremented: boolean
+          tracking_reference: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          contact_phone?: string | null
           created_at?: string | null
+          delivery_instructions?: string | null
           id?: string
+          recipient_name?: string | null
           reward_id: string
+          shipping_address?: string | null
           status?: string
+          stock_decremented?: boolean
+          tracking_reference?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          contact_phone?: string | null
           created_at?: string | null
+          delivery_instructions?: string | null
           id?: string
+          recipient_name?: string | null
           reward_id?: string
+          shipping_address?: string | null
           status?: string
+          stock_decremented?: boolean
+          tracking_reference?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -104,33 +202,172 @@ export type Database = {
           },
         ]
       }
+      redemption_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          note: string | null
+          redemption_id: string
+          status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          redemption_id: string
+          status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          redemption_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "redemption_status_events_redemption_id_fkey"
+            columns: ["redemption_id"]
+            isOneToOne: false
+            referencedRelation: "redeemed_rewards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reward_vouchers: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          imported_by: string | null
+          issued_at: string | null
+          redemption_id: string | null
+          reward_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          imported_by?: string | null
+          issued_at?: string | null
+          redemption_id?: string | null
+          reward_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          imported_by?: string | null
+          issued_at?: string | null
+          redemption_id?: string | null
+          reward_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reward_vouchers_redemption_id_fkey"
+            columns: ["redemption_id"]
+            isOneToOne: true
+            referencedRelation: "redeemed_rewards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reward_vouchers_reward_id_fkey"
+            columns: ["reward_id"]
+            isOneToOne: false
+            referencedRelation: "rewards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reward_waitlist: {
+        Row: {
+          created_at: string
+          id: string
+          restocked_at: string | null
+          reward_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          restocked_at?: string | null
+          reward_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          restocked_at?: string | null
+          reward_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reward_waitlist_reward_id_fkey"
+            columns: ["reward_id"]
+            isOneToOne: false
+            referencedRelation: "rewards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rewards: {
         Row: {
+          archived_at: string | null
           available: boolean | null
           created_at: string | null
+          delivery_method: string
           description: string
+          ends_at: string | null
           id: string
           image_url: string
+          low_stock_threshold: number
+          per_user_limit: number | null
+          sort_order: number
+          starts_at: string | null
+          stock_quantity: number | null
           title: string
           token_cost: number
+          updated_at: string | null
         }
         Insert: {
+          archived_at?: string | null
           available?: boolean | null
           created_at?: string | null
+          delivery_method?: string
           description: string
+          ends_at?: string | null
           id?: string
           image_url: string
+          low_stock_threshold?: number
+          per_user_limit?: number | null
+          sort_order?: number
+          starts_at?: string | null
+          stock_quantity?: number | null
           title: string
           token_cost: number
+          updated_at?: string | null
         }
         Update: {
+          archived_at?: string | null
           available?: boolean | null
           created_at?: string | null
+          delivery_method?: string
           description?: string
+          ends_at?: string | null
           id?: string
           image_url?: string
+          low_stock_threshold?: number
+          per_user_limit?: number | null
+          sort_order?: number
+          starts_at?: string | null
+          stock_quantity?: number | null
           title?: string
           token_cost?: number
+          updated_at?: string | null
         }
         Relationships: []
       }
@@ -140,6 +377,7 @@ export type Database = {
           created_at: string | null
           description: string
           id: string
+          idempotency_key: string | null
           source_id: string | null
           source_type: string
           transaction_type: string
@@ -150,6 +388,7 @@ export type Database = {
           created_at?: string | null
           description: string
           id?: string
+          idempotency_key?: string | null
           source_id?: string | null
           source_type: string
           transaction_type: string
@@ -160,6 +399,7 @@ export type Database = {
           created_at?: string | null
           description?: string
           id?: string
+          idempotency_key?: string | null
           source_id?: string | null
           source_type?: string
           transaction_type?: string
@@ -260,41 +500,214 @@ export type Database = {
         }
         Relationships: []
       }
+      waste_report_images: {
+        Row: {
+          created_at: string
+          id: string
+          image_hash: string | null
+          image_url: string
+          position: number
+          report_id: string
+          thumbnail_url: string | null
+          waste_size: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_hash?: string | null
+          image_url: string
+          position: number
+          report_id: string
+          thumbnail_url?: string | null
+          waste_size?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_hash?: string | null
+          image_url?: string
+          position?: number
+          report_id?: string
+          thumbnail_url?: string | null
+          waste_size?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waste_report_images_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "waste_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waste_report_verifications: {
+        Row: {
+          categories: Json
+          confidence: number | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          image_id: string | null
+          inconclusive: boolean
+          is_authentic_photo: boolean | null
+          is_waste: boolean
+          model: string
+          raw_response: string | null
+          reason: string | null
+          report_id: string
+          review_notes: string[]
+          source: string
+          waste_size: string | null
+        }
+        Insert: {
+          categories?: Json
+          confidence?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          image_id?: string | null
+          inconclusive?: boolean
+          is_authentic_photo?: boolean | null
+          is_waste: boolean
+          model: string
+          raw_response?: string | null
+          reason?: string | null
+          report_id: string
+          review_notes?: string[]
+          source?: string
+          waste_size?: string | null
+        }
+        Update: {
+          categories?: Json
+          confidence?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          image_id?: string | null
+          inconclusive?: boolean
+          is_authentic_photo?: boolean | null
+          is_waste?: boolean
+          model?: string
+          raw_response?: string | null
+          reason?: string | null
+          report_id?: string
+          review_notes?: string[]
+          source?: string
+          waste_size?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waste_report_verifications_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "waste_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       waste_reports: {
         Row: {
+          after_image_url: string | null
+          claim_expires_at: string | null
+          claimed_at: string | null
+          claimed_by: string | null
+          cleanup_comparison: Json | null
+          cleanup_verified_at: string | null
+          collected_at: string | null
+          collected_by: string | null
           created_at: string
           description: string | null
+          duplicate_of: string | null
+          geo_point: unknown | null
+          geocoder_source: string | null
+          hazardous: boolean
           id: string
+          image_hash: string | null
           image_url: string | null
+          latitude: number | null
           location: string
+          location_accuracy: number | null
+          longitude: number | null
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_reason: string | null
           status: string
+          suspected_duplicate_of: string | null
+          thumbnail_url: string | null
           title: string
           updated_at: string
           user_id: string
+          waste_categories: string[]
           waste_size: string
         }
         Insert: {
+          after_image_url?: string | null
+          claim_expires_at?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
+          cleanup_comparison?: Json | null
+          cleanup_verified_at?: string | null
+          collected_at?: string | null
+          collected_by?: string | null
           created_at?: string
           description?: string | null
+          duplicate_of?: string | null
+          geo_point?: unknown | null
+          geocoder_source?: string | null
           id?: string
+          image_hash?: string | null
           image_url?: string | null
+          latitude?: number | null
           location: string
+          location_accuracy?: number | null
+          longitude?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
           status?: string
+          suspected_duplicate_of?: string | null
+          thumbnail_url: string | null
           title: string
           updated_at?: string
           user_id: string
+          waste_categories?: string[]
           waste_size: string
         }
         Update: {
+          after_image_url?: string | null
+          claim_expires_at?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
+          cleanup_comparison?: Json | null
+          cleanup_verified_at?: string | null
+          collected_at?: string | null
+          collected_by?: string | null
           created_at?: string
           description?: string | null
+          duplicate_of?: string | null
+          geo_point?: unknown | null
+          geocoder_source?: string | null
           id?: string
+          image_hash?: string | null
           image_url?: string | null
+          latitude?: number | null
           location?: string
+          location_accuracy?: number | null
+          longitude?: number | null
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_reason?: string | null
           status?: string
+          suspected_duplicate_of?: string | null
+          thumbnail_url?: string | null
           title?: string
           updated_at?: string
           user_id?: string
+          waste_categories?: string[]
           waste_size?: string
         }
         Relationships: []
@@ -304,14 +717,154 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      award_collection_tokens: {
+        Args: { p_report_id: string }
+        Returns: number
+      }
       check_admin_access: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      claim_geocoder_slot: {
+        Args: { p_provider: string; p_min_interval_ms: number }
+        Returns: boolean
+      }
+      claim_waste_report: {
+        Args: { p_report_id: string; p_hours?: number }
+        Returns: string
+      }
+      complete_waste_report_collection: {
+        Args: {
+          p_report_id: string
+          p_collector_id: string
+          p_after_image_url: string
+          p_comparison: Json
+        }
+        Returns: boolean
+      }
+      dismiss_duplicate_flag: {
+        Args: { p_report_id: string }
+        Returns: boolean
+      }
+      import_reward_vouchers: {
+        Args: { p_reward_id: string; p_codes: string[] }
+        Returns: number
+      }
       is_admin: {
         Args: { user_id: string }
         Returns: boolean
       }
+      join_collection_event: {
+        Args: { p_event_id: string }
+        Returns: string
+      }
+      join_reward_waitlist: {
+        Args: { p_reward_id: string }
+        Returns: boolean
+      }
+      leave_collection_event: {
+        Args: { p_event_id: string }
+        Returns: boolean
+      }
+      leave_reward_waitlist: {
+        Args: { p_reward_id: string }
+        Returns: boolean
+      }
+      merge_waste_reports: {
+        Args: { p_canonical_id: string; p_duplicate_ids: string[] }
+        Returns: number
+      }
+      moderate_waste_report: {
+        Args: {
+          p_report_id: string
+          p_decision: string
+          p_reason?: string
+        }
+        Returns: number
+      }
+      redeem_reward: {
+        Args: {
+          p_reward_id: string
+          p_idempotency_key: string
+          p_recipient_name: string
+          p_shipping_address: string
+          p_contact_phone?: string | null
+          p_delivery_instructions?: string | null
+        }
+        Returns: string
+      }
+      release_expired_report_claims: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      release_waste_report_claim: {
+        Args: { p_report_id: string }
+        Returns: boolean
+      }
+      reorder_rewards: {
+        Args: { p_reward_ids: string[] }
+        Returns: undefined
+      }
+      reward_voucher_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          reward_id: string
+          unused: number
+          issued: number
+        }[]
+      }
+      reward_waitlist_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          reward_id: string
+          waiting: number
+        }[]
+      }
+      update_redemption_status: {
+        Args: {
+          p_redemption_id: string
+          p_status: string
+          p_note?: string | null
+          p_tracking_reference?: string | null
+        }
+        Returns: number
+      }
+      update_reward_stock: {
+        Args: {
+          p_reward_id: string
+          p_stock_quantity: number | null
+          p_loaded_quantity?: number | null
+        }
+        Returns: number | null
+      }
+      waste_reports_within_radius: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_radius_km: number
+          p_statuses?: string[]
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string | null
+          location: string
+          waste_size: string
+          waste_categories: string[]
+          hazardous: boolean
+          image_url: string | null
+          thumbnail_url: string | null
+          status: string
+          created_at: string
+          user_id: string
+          claimed_by: string | null
+          claim_expires_at: string | null
+          latitude: number
+          longitude: number
+          distance_km: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
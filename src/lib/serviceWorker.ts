@@ -0,0 +1,37 @@
+// Registration of public/sw.js and the Background Sync hook for report drafts
+
+export const DRAFT_SYNC_TAG = 'sync-report-drafts';
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+export const registerServiceWorker = () => {
+  // The dev server serves unbundled modules that shouldn't be cached
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+};
+
+/**
+ * Ask the browser to wake the app when it is back online so drafts get sent.
+ * Browsers without Background Sync rely on the page's online event instead.
+ */
+export const requestDraftSync = async () => {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration() as SyncRegistration | undefined;
+    await registration?.sync?.register(DRAFT_SYNC_TAG);
+  } catch (error) {
+    console.error("Could not register background sync:", error);
+  }
+};
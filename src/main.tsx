@@ -2,6 +2,7 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerServiceWorker } from './lib/serviceWorker'
 
 // Set favicon dynamically 
 const link = document.querySelector("link[rel~='icon']");
@@ -13,3 +14,5 @@ if (!link) {
 }
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
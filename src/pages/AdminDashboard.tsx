@@ -8,13 +8,25 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
-import { Shield, Info, Users, ClipboardList } from 'lucide-react';
+import { Shield, Info, Users, ClipboardList, ShieldCheck, Copy, AlertTriangle, Gift, Store } from 'lucide-react';
 import { toast } from 'sonner';
 import { ADMIN_EMAIL } from '@/constants/auth';
 import { createUtilsToast } from '@/lib/utils';
 import AdminEventManager from '@/components/AdminEventManager';
+import ModerationQueue from '@/components/ModerationQueue';
+import RedemptionFulfillment from '@/components/RedemptionFulfillment';
+import RewardCatalogManager from '@/components/RewardCatalogManager';
+import DuplicateReportGroups from '@/components/DuplicateReportGroups';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import ReportImageGallery from '@/components/ReportImageGallery';
+import { REPORT_STATUSES, ReportPhotoRow } from '@/utils/reportUtils';
+import { moderateWasteReport } from '@/utils/moderationUtils';
+import { Textarea } from '@/components/ui/textarea';
+import VerificationResult from '@/components/VerificationResult';
+import { StoredVerification, fetchReportVerifications } from '@/utils/verificationUtils';
+import { groupSuspectedDuplicates } from '@/utils/duplicateUtils';
+import { WASTE_CATEGORIES, wasteCategoryLabel } from '@/constants/wasteCategories';
 
 type WasteReport = {
   id: string;
@@ -22,20 +34,35 @@ type WasteReport = {
   description: string | null;
   location: string;
   waste_size: string;
+  waste_categories: string[];
+  hazardous: boolean;
   image_url: string | null;
   status: string;
   created_at: string;
   user_id: string;
+  claimed_by: string | null;
+  collected_at: string | null;
+  after_image_url: string | null;
+  moderation_reason: string | null;
+  suspected_duplicate_of: string | null;
+  duplicate_of: string | null;
 };
 
+const formatStatus = (status: string) => status.charAt(0).toUpperCase() + status.slice(1);
+
 const AdminDashboard = () => {
   const [reports, setReports] = useState<WasteReport[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
   const [isCheckingAdmin, setIsCheckingAdmin] = useState(true);
-  const [currentView, setCurrentView] = useState<'reports' | 'events'>('reports');
+  const [currentView, setCurrentView] = useState<'reports' | 'moderation' | 'duplicates' | 'events' | 'redemptions' | 'catalog'>('reports');
   const [selectedReport, setSelectedReport] = useState<WasteReport | null>(null);
   const [reportDialogOpen, setReportDialogOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [reportVerifications, setReportVerifications] = useState<StoredVerification[]>([]);
+  const [reportPhotos, setReportPhotos] = useState<ReportPhotoRow[]>([]);
+  // A waste category value, 'hazardous-any' for any hazardous report, or 'all'
+  const [categoryFilter, setCategoryFilter] = useState('all');
   const { user } = useAuth();
 
   useEffect(() => {
@@ -162,9 +189,51 @@ const AdminDashboard = () => {
     }
   };
 
-  const viewReportDetails = (report: WasteReport) => {
+  // Reject an already-open report, taking back the tokens it was credited with
+  const rejectOpenReport = async (reportId: string) => {
+    const { tokenChange, error } = await moderateWasteReport(reportId, 'reject', rejectReason);
+
+    if (error) {
+      createUtilsToast.error("Failed to reject report", error);
+      return;
+    }
+
+    createUtilsToast.success(
+      "Report rejected",
+      tokenChange < 0 ? `${-tokenChange} tokens were reversed.` : undefined
+    );
+    setReports(reports.map(report =>
+      report.id === reportId ? { ...report, status: 'rejected', moderation_reason: rejectReason } : report
+    ));
+    setRejectReason('');
+    setSelectedReport(null);
+    setReportDialogOpen(false);
+  };
+
+  const pendingCount = reports.filter(report => report.status === 'pending').length;
+  const filteredReports = categoryFilter === 'all'
+    ? reports
+    : categoryFilter === 'hazardous-any'
+    ? reports.filter(report => report.hazardous)
+    : reports.filter(report => report.waste_categories.includes(categoryFilter));
+  const duplicateGroupCount = groupSuspectedDuplicates(reports).length;
+
+  const viewReportDetails = async (report: WasteReport) => {
     setSelectedReport(report);
+    setRejectReason('');
+    setReportVerifications([]);
+    setReportPhotos([]);
     setReportDialogOpen(true);
+
+    const verifications = await fetchReportVerifications([report.id]);
+    setReportVerifications(verifications[report.id] || []);
+  };
+
+  // Only worth labelling when the report has several photos
+  const photoLabel = (stored: StoredVerification) => {
+    if (reportPhotos.length < 2) return undefined;
+    const index = reportPhotos.findIndex(photo => photo.id === stored.image_id);
+    return index === -1 ? "Cover photo" : `Photo ${index + 1}`;
   };
 
   if (isCheckingAdmin) {
@@ -249,6 +318,30 @@ const AdminDashboard = () => {
             <ClipboardList size={16} />
             Waste Reports
           </button>
+          <button
+            className={`px-6 py-3 text-sm font-medium flex items-center gap-2 ${
+              currentView === 'moderation' ? 'border-b-2 border-eco text-eco' : 'text-gray-600'
+            }`}
+            onClick={() => setCurrentView('moderation')}
+          >
+            <ShieldCheck size={16} />
+            Moderation
+            {pendingCount > 0 && (
+              <Badge variant="destructive" className="ml-1 px-1.5 py-0 text-xs">{pendingCount}</Badge>
+            )}
+          </button>
+          <button
+            className={`px-6 py-3 text-sm font-medium flex items-center gap-2 ${
+              currentView === 'duplicates' ? 'border-b-2 border-eco text-eco' : 'text-gray-600'
+            }`}
+            onClick={() => setCurrentView('duplicates')}
+          >
+            <Copy size={16} />
+            Duplicates
+            {duplicateGroupCount > 0 && (
+              <Badge variant="destructive" className="ml-1 px-1.5 py-0 text-xs">{duplicateGroupCount}</Badge>
+            )}
+          </button>
           <button
             className={`px-6 py-3 text-sm font-medium flex items-center gap-2 ${
               currentView === 'events' ? 'border-b-2 border-eco text-eco' : 'text-gray-600'
@@ -258,21 +351,59 @@ const AdminDashboard = () => {
             <Users size={16} />
             Collection Events
           </button>
+          <button
+            className={`px-6 py-3 text-sm font-medium flex items-center gap-2 ${
+              currentView === 'redemptions' ? 'border-b-2 border-eco text-eco' : 'text-gray-600'
+            }`}
+            onClick={() => setCurrentView('redemptions')}
+          >
+            <Gift size={16} />
+            Redemptions
+          </button>
+          <button
+            className={`px-6 py-3 text-sm font-medium flex items-center gap-2 ${
+              currentView === 'catalog' ? 'border-b-2 border-eco text-eco' : 'text-gray-600'
+            }`}
+            onClick={() => setCurrentView('catalog')}
+          >
+            <Store size={16} />
+            Reward Catalog
+          </button>
         </div>
         
-        {currentView === 'reports' ? (
+        {currentView === 'moderation' ? (
+          <ModerationQueue onModerated={fetchReports} />
+        ) : currentView === 'redemptions' ? (
+          <RedemptionFulfillment />
+        ) : currentView === 'catalog' ? (
+          <RewardCatalogManager />
+        ) : currentView === 'duplicates' ? (
+          <DuplicateReportGroups reports={reports} onChanged={fetchReports} />
+        ) : currentView === 'reports' ? (
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Waste Reports Dashboard</CardTitle>
+              <select
+                value={categoryFilter}
+                onChange={(e) => setCategoryFilter(e.target.value)}
+                className="border rounded p-1 text-sm"
+                aria-label="Filter by waste type"
+              >
+                <option value="all">All waste types</option>
+                <option value="hazardous-any">Any hazardous</option>
+                {WASTE_CATEGORIES.map(category => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
+              </select>
             </CardHeader>
             <CardContent>
               {isLoading ? (
                 <div className="flex justify-center py-8">
                   <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-eco"></div>
                 </div>
-              ) : reports.length === 0 ? (
+              ) : filteredReports.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
-                  No waste reports found
+                  {reports.length === 0 ? 'No waste reports found' : 'No reports of this waste type'}
                 </div>
               ) : (
                 <div className="rounded-md border">
@@ -283,12 +414,13 @@ const AdminDashboard = () => {
                         <TableHead>Title</TableHead>
                         <TableHead>Location</TableHead>
                         <TableHead>Size</TableHead>
+                        <TableHead>Types</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {reports.map((report) => (
+                      {filteredReports.map((report) => (
                         <TableRow key={report.id} className="cursor-pointer hover:bg-gray-50" onClick={() => viewReportDetails(report)}>
                           <TableCell>
                             {format(new Date(report.created_at), 'MMM d, yyyy HH:mm')}
@@ -296,30 +428,56 @@ const AdminDashboard = () => {
                           <TableCell>{report.title}</TableCell>
                           <TableCell>{report.location}</TableCell>
                           <TableCell>{report.waste_size}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {report.hazardous && (
+                                <Badge variant="destructive" className="flex items-center gap-1">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  Hazardous
+                                </Badge>
+                              )}
+                              {report.waste_categories.map(category => (
+                                <Badge key={category} variant="outline">{wasteCategoryLabel(category)}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
                           <TableCell>
                             <Badge variant={
-                              report.status === 'completed' ? 'default' :
-                              report.status === 'in_progress' ? 'secondary' :
+                              report.status === 'collected' ? 'default' :
+                              report.status === 'claimed' || report.status === 'pending' ? 'secondary' :
+                              report.status === 'reported' ? 'outline' :
                               'destructive'
                             }>
                               {report.status}
                             </Badge>
                           </TableCell>
                           <TableCell>
-                            <select
-                              value={report.status}
-                              onChange={(e) => {
-                                e.stopPropagation();
-                                updateReportStatus(report.id, e.target.value);
-                              }}
-                              onClick={(e) => e.stopPropagation()}
-                              className="border rounded p-1 text-sm"
-                            >
-                              <option value="pending">Pending</option>
-                              <option value="in_progress">In Progress</option>
-                              <option value="completed">Completed</option>
-                              <option value="approved">Approved</option>
-                            </select>
+                            {report.status === 'pending' ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setCurrentView('moderation');
+                                }}
+                              >
+                                Review
+                              </Button>
+                            ) : REPORT_STATUSES.includes(report.status) ? (
+                              <select
+                                value={report.status}
+                                onChange={(e) => {
+                                  e.stopPropagation();
+                                  updateReportStatus(report.id, e.target.value);
+                                }}
+                                onClick={(e) => e.stopPropagation()}
+                                className="border rounded p-1 text-sm"
+                              >
+                                {REPORT_STATUSES.map(status => (
+                                  <option key={status} value={status}>{formatStatus(status)}</option>
+                                ))}
+                              </select>
+                            ) : null}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -364,27 +522,106 @@ const AdminDashboard = () => {
                   <h3 className="text-sm font-medium text-gray-500">Waste Size</h3>
                   <p>{selectedReport.waste_size}</p>
                 </div>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Waste Types</h3>
+                  {selectedReport.waste_categories.length > 0 ? (
+                    <p>{selectedReport.waste_categories.map(wasteCategoryLabel).join(', ')}</p>
+                  ) : (
+                    <p className="text-gray-500">No types recorded</p>
+                  )}
+                </div>
+
+                {selectedReport.hazardous && (
+                  <Alert variant="destructive">
+                    <AlertTitle className="flex items-center">
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      Hazardous waste
+                    </AlertTitle>
+                    <AlertDescription>
+                      This report can't be claimed by volunteers. Arrange special handling with the local authority.
+                    </AlertDescription>
+                  </Alert>
+                )}
                 
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Status</h3>
-                  <select
-                    value={selectedReport.status}
-                    onChange={(e) => updateReportStatus(selectedReport.id, e.target.value)}
-                    className="mt-1 border rounded p-2 text-sm w-full"
-                  >
-                    <option value="pending">Pending</option>
-                    <option value="in_progress">In Progress</option>
-                    <option value="completed">Completed</option>
-                    <option value="approved">Approved</option>
-                  </select>
+                  {REPORT_STATUSES.includes(selectedReport.status) ? (
+                    <select
+                      value={selectedReport.status}
+                      onChange={(e) => updateReportStatus(selectedReport.id, e.target.value)}
+                      className="mt-1 border rounded p-2 text-sm w-full"
+                    >
+                      {REPORT_STATUSES.map(status => (
+                        <option key={status} value={status}>{formatStatus(status)}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p>{formatStatus(selectedReport.status)}</p>
+                  )}
                 </div>
+
+                {selectedReport.status === 'reported' && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-gray-500">Reject Report</h3>
+                    <Textarea
+                      value={rejectReason}
+                      onChange={(e) => setRejectReason(e.target.value)}
+                      placeholder="Reason for rejecting this report"
+                      className="min-h-[60px] resize-none"
+                    />
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={!rejectReason.trim()}
+                      onClick={() => rejectOpenReport(selectedReport.id)}
+                    >
+                      Reject and reverse tokens
+                    </Button>
+                  </div>
+                )}
+
+                {selectedReport.moderation_reason && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Moderation Note</h3>
+                    <p>{selectedReport.moderation_reason}</p>
+                  </div>
+                )}
                 
                 {selectedReport.image_url && (
                   <div>
-                    <h3 className="text-sm font-medium text-gray-500">Image</h3>
+                    <h3 className="text-sm font-medium text-gray-500">
+                      {reportPhotos.length > 1 ? `Images (${reportPhotos.length})` : "Image"}
+                    </h3>
+                    <div className="mt-2">
+                      <ReportImageGallery
+                        reportId={selectedReport.id}
+                        fallbackUrl={selectedReport.image_url}
+                        alt="Waste report"
+                        onLoad={setReportPhotos}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {reportVerifications.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-gray-500">AI Verification</h3>
+                    {reportVerifications.map((stored) => (
+                      <VerificationResult key={stored.id} stored={stored} photoLabel={photoLabel(stored)} />
+                    ))}
+                  </div>
+                )}
+
+                {selectedReport.after_image_url && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">
+                      After Cleanup
+                      {selectedReport.collected_at && ` (${format(new Date(selectedReport.collected_at), 'MMM d, yyyy HH:mm')})`}
+                    </h3>
                     <img 
-                      src={selectedReport.image_url} 
-                      alt="Waste report" 
+                      src={selectedReport.after_image_url} 
+                      alt="After cleanup" 
                       className="mt-2 rounded border object-cover h-48 w-full"
                       onError={(e) => {
                         (e.target as HTMLImageElement).src = '/placeholder.svg';
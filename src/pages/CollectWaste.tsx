@@ -1,5 +1,5 @@
 
-import { Calendar, Clock, User, MapPin, ArrowRight, Edit, Trash2 } from "lucide-react";
+import { Calendar, Clock, User, MapPin, ArrowRight, Edit, Trash2, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -8,7 +8,16 @@ import { useEffect, useState } from "react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import AdminEventManager from "@/components/AdminEventManager";
+import ReportCollectionQueue from "@/components/ReportCollectionQueue";
+import WasteMap from "@/components/WasteMap";
 import { checkUserIsAdmin } from "@/utils/adminUtils";
+import { createUtilsToast } from "@/lib/utils";
+import {
+  ParticipationStatus,
+  fetchUserEventParticipation,
+  joinCollectionEvent,
+  leaveCollectionEvent
+} from "@/utils/eventUtils";
 
 type CollectionEvent = {
   id: string;
@@ -17,6 +26,7 @@ type CollectionEvent = {
   date: string;
   time_range: string;
   participants: number;
+  capacity: number | null;
   waste_small: number;
   waste_medium: number;
   waste_large: number;
@@ -29,6 +39,8 @@ const CollectWaste = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
   const [activeFilter, setActiveFilter] = useState<string | null>(null);
+  const [participation, setParticipation] = useState<Record<string, ParticipationStatus>>({});
+  const [pendingEventId, setPendingEventId] = useState<string | null>(null);
 
   useEffect(() => {
     // Check if user is admin
@@ -43,6 +55,14 @@ const CollectWaste = () => {
     checkAdmin();
   }, [user]);
 
+  useEffect(() => {
+    if (!user) {
+      setParticipation({});
+      return;
+    }
+    fetchUserEventParticipation(user.id).then(setParticipation);
+  }, [user]);
+
   useEffect(() => {
     fetchEvents();
     
@@ -55,13 +75,17 @@ const CollectWaste = () => {
         table: 'collection_events' 
       }, () => {
         fetchEvents();
+        // A seat freed elsewhere may have promoted the user off the waitlist
+        if (user) {
+          fetchUserEventParticipation(user.id).then(setParticipation);
+        }
       })
       .subscribe();
       
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [activeFilter]); // Add activeFilter as dependency to refetch when filter changes
+  }, [activeFilter, user]); // Add activeFilter as dependency to refetch when filter changes
 
   const fetchEvents = async () => {
     setIsLoading(true);
@@ -91,12 +115,50 @@ const CollectWaste = () => {
     }
   };
   
-  const handleJoinEvent = (eventId: string) => {
-    // This would typically update the participants count or create a participant record
-    // For now we'll just show a toast message
-    alert("Feature to join event will be implemented in future updates!");
+  const handleJoinEvent = async (event: CollectionEvent) => {
+    setPendingEventId(event.id);
+    const { status, error } = await joinCollectionEvent(event.id);
+    setPendingEventId(null);
+
+    if (error) {
+      createUtilsToast.error("Could not join event", error);
+      return;
+    }
+
+    setParticipation(prev => ({ ...prev, [event.id]: status }));
+    if (status === "waitlisted") {
+      createUtilsToast.info("Added to waitlist", `${event.title} is full. We'll give you a spot if one opens up.`);
+    } else {
+      createUtilsToast.success("You're in!", `You've joined ${event.title}.`);
+    }
+    fetchEvents();
+  };
+
+  const handleLeaveEvent = async (event: CollectionEvent) => {
+    setPendingEventId(event.id);
+    const { error } = await leaveCollectionEvent(event.id);
+    setPendingEventId(null);
+
+    if (error) {
+      createUtilsToast.error("Could not leave event", error);
+      return;
+    }
+
+    setParticipation(prev => {
+      const next = { ...prev };
+      delete next[event.id];
+      return next;
+    });
+    createUtilsToast.success(
+      participation[event.id] === "waitlisted" ? "Left waitlist" : "Left event",
+      event.title
+    );
+    fetchEvents();
   };
 
+  const isEventFull = (event: CollectionEvent) =>
+    !!event.capacity && event.participants >= event.capacity;
+
   const getFilteredEvents = () => {
     if (!activeFilter) return events;
     return events.filter(event => event.status === activeFilter);
@@ -118,11 +180,7 @@ const CollectWaste = () => {
         )}
 
         {/* Map Section */}
-        <div className="mb-8">
-          <div className="bg-gray-200 rounded-lg h-[300px] w-full flex items-center justify-center">
-            <p className="text-gray-500">Interactive map will be displayed here</p>
-          </div>
-        </div>
+        <WasteMap />
         
         {/* Filter Buttons */}
         <div className="mb-4 flex flex-wrap gap-2">
@@ -206,7 +264,16 @@ const CollectWaste = () => {
                     </div>
                     <div className="flex items-center">
                       <User className="h-4 w-4 mr-2 text-gray-500" />
-                      <span className="text-sm">{event.participants} participants</span>
+                      <span className="text-sm">
+                        {event.participants}{event.capacity ? ` / ${event.capacity}` : ""} participants
+                      </span>
+                      {participation[event.id] === "registered" ? (
+                        <Badge variant="outline" className="ml-2 border-eco text-eco">You're registered</Badge>
+                      ) : participation[event.id] === "waitlisted" ? (
+                        <Badge variant="outline" className="ml-2">On waitlist</Badge>
+                      ) : isEventFull(event) ? (
+                        <Badge variant="secondary" className="ml-2">Full</Badge>
+                      ) : null}
                     </div>
                     
                     <div className="pt-3">
@@ -236,12 +303,24 @@ const CollectWaste = () => {
                 </CardContent>
                 
                 <CardFooter>
-                  {event.status === "active" ? (
+                  {event.status === "active" && participation[event.id] ? (
+                    <Button 
+                      className="w-full"
+                      variant="outline"
+                      onClick={() => handleLeaveEvent(event)}
+                      disabled={pendingEventId === event.id}
+                    >
+                      {pendingEventId === event.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {participation[event.id] === "waitlisted" ? "Leave Waitlist" : "Leave Event"}
+                    </Button>
+                  ) : event.status === "active" ? (
                     <Button 
                       className="w-full bg-eco hover:bg-eco-dark"
-                      onClick={() => handleJoinEvent(event.id)}
+                      onClick={() => handleJoinEvent(event)}
+                      disabled={pendingEventId === event.id}
                     >
-                      Join Event <ArrowRight className="ml-2 h-4 w-4" />
+                      {pendingEventId === event.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {isEventFull(event) ? "Join Waitlist" : "Join Event"} <ArrowRight className="ml-2 h-4 w-4" />
                     </Button>
                   ) : (
                     <Button 
@@ -272,15 +351,7 @@ const CollectWaste = () => {
         )}
 
         {/* Individual Reports */}
-        <h2 className="text-2xl font-semibold mb-4">Recent Waste Reports</h2>
-        <div className="bg-eco-light rounded-lg p-6 text-center">
-          <p className="text-gray-700 mb-4">
-            Currently, there are no individual waste reports available for collection in your area.
-          </p>
-          <Button variant="outline" className="border-eco text-eco hover:bg-eco-light hover:text-eco-dark">
-            Expand Search Area
-          </Button>
-        </div>
+        <ReportCollectionQueue />
       </div>
     </Layout>
   );
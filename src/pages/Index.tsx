@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { Leaf, Coins, Users, Trophy, Copyright, ArrowRight, ChevronRight, MapPin } from "lucide-react";
+import { Leaf, Coins, Users, Trophy, Copyright, ArrowRight, ChevronRight, MapPin, Camera } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link, useNavigate } from "react-router-dom";
 import Layout from "@/components/Layout";
@@ -84,6 +84,15 @@ const Index = () => {
                 Report Waste 
                 <ArrowRight className="ml-2 h-5 w-5 group-hover:translate-x-1 transition-transform" />
               </Button>
+              <Button 
+                size="lg" 
+                variant="outline"
+                className="ml-0 sm:ml-3 mt-3 sm:mt-0 border-eco text-eco-dark hover:bg-eco-light/40 text-base sm:text-lg px-6 sm:px-8 py-3 sm:py-4"
+                onClick={() => navigate("/report/quick")}
+              >
+                <Camera className="mr-2 h-5 w-5" />
+                Quick Photo Report
+              </Button>
             </div>
             
             <div className="lg:w-2/5 flex justify-center items-center">
@@ -1,7 +1,7 @@
 
 import { useState, useEffect } from "react";
-import { Trophy, User, Filter, ArrowUp, ArrowDown } from "lucide-react";
-import { Button } from "@/components/ui/button";
+import { Trophy, User, ArrowUp, ArrowDown } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
@@ -10,6 +10,8 @@ import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
+import { ACCEPTED_REPORT_STATUSES } from "@/utils/reportUtils";
+import { WASTE_CATEGORIES } from "@/constants/wasteCategories";
 
 interface LeaderboardUser {
   id: string;
@@ -26,6 +28,8 @@ const Leaderboard = () => {
   const [sortField, setSortField] = useState<SortField>("tokens");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   const [timeFilter, setTimeFilter] = useState("all-time");
+  // Count only reports of one waste type ('all' for every report)
+  const [categoryFilter, setCategoryFilter] = useState("all");
   const [leaderboardUsers, setLeaderboardUsers] = useState<LeaderboardUser[]>([]);
   const { toast } = useToast();
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -44,7 +48,7 @@ const Leaderboard = () => {
   
   // Fetch users data
   const { data: userData, isLoading, error } = useQuery({
-    queryKey: ['leaderboard', timeFilter],
+    queryKey: ['leaderboard', timeFilter, categoryFilter],
     queryFn: async () => {
       try {
         // Get user tokens data
@@ -80,7 +84,11 @@ const Leaderboard = () => {
           wasteQuery = wasteQuery.gte('created_at', startDate.toISOString());
         }
         
-        wasteQuery = wasteQuery.eq('status', 'approved');
+        wasteQuery = wasteQuery.in('status', ACCEPTED_REPORT_STATUSES);
+        
+        if (categoryFilter !== 'all') {
+          wasteQuery = wasteQuery.contains('waste_categories', [categoryFilter]);
+        }
         
         const { data: wasteReports, error: wasteError } = await wasteQuery;
         
@@ -148,7 +156,9 @@ const Leaderboard = () => {
           });
         }
         
-        return Array.from(userMap.values());
+        // With a waste type selected, only people who reported it are ranked
+        const users = Array.from(userMap.values());
+        return categoryFilter === 'all' ? users : users.filter(user => user.reportsSubmitted > 0);
       } catch (error) {
         console.error("Error fetching leaderboard data:", error);
         toast({
@@ -271,10 +281,17 @@ const Leaderboard = () => {
             <h2 className="text-xl font-semibold mb-2 sm:mb-0">Full Leaderboard</h2>
             
             <div className="flex items-center space-x-2">
-              <Button variant="outline" size="sm" className="h-8 px-2">
-                <Filter className="h-3.5 w-3.5 mr-1" />
-                <span className="text-xs">Filter</span>
-              </Button>
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="h-8 w-44 text-xs">
+                  <SelectValue placeholder="Waste type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All waste types</SelectItem>
+                  {WASTE_CATEGORIES.map(category => (
+                    <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               
               <Tabs value={timeFilter} onValueChange={setTimeFilter} className="h-8">
                 <TabsList className="h-8 p-0.5">
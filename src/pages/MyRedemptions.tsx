@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, Coins, Copy, Gift, Loader2, MapPin, Ticket, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import Layout from "@/components/Layout";
+import RedemptionTimeline, { RedemptionStatusBadge } from "@/components/RedemptionTimeline";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Redemption,
+  RedemptionEvent,
+  REFUNDED_REDEMPTION_STATUSES,
+  fetchMyRedemptions,
+  fetchRedemptionEvents,
+  fetchRedemptionRefunds
+} from "@/utils/redemptionUtils";
+
+const MyRedemptions = () => {
+  const { user } = useAuth();
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [events, setEvents] = useState<Record<string, RedemptionEvent[]>>({});
+  // Tokens refunded per redemption, from the ledger
+  const [refunds, setRefunds] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadRedemptions = async () => {
+      setLoading(true);
+      const mine = await fetchMyRedemptions(user.id);
+      setRedemptions(mine);
+      setEvents(await fetchRedemptionEvents(mine.map(r => r.id)));
+      setRefunds(await fetchRedemptionRefunds(
+        mine.filter(r => REFUNDED_REDEMPTION_STATUSES.includes(r.status)).map(r => r.id)
+      ));
+      setLoading(false);
+    };
+
+    loadRedemptions();
+  }, [user]);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center mb-6">
+          <Button asChild variant="ghost" className="mr-4 text-gray-700 dark:text-gray-300 hover:text-eco dark:hover:text-eco">
+            <Link to="/rewards">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Rewards
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">My Redemptions</h1>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center min-h-[200px]">
+            <Loader2 className="h-6 w-6 text-eco animate-spin" />
+          </div>
+        ) : redemptions.length === 0 ? (
+          <div className="text-center py-12">
+            <Gift className="mx-auto h-12 w-12 text-gray-300 dark:text-gray-600 mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">You haven't redeemed any rewards yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {redemptions.map((redemption) => (
+              <Card key={redemption.id} className="bg-white dark:bg-gray-800 border dark:border-gray-700">
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle className="text-lg">{redemption.reward?.title ?? "Reward"}</CardTitle>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Redeemed {format(new Date(redemption.created_at), 'MMM d, yyyy')}
+                      {redemption.reward && (
+                        <span className="inline-flex items-center ml-2">
+                          · {redemption.reward.token_cost}
+                          <Coins className="ml-1 h-3 w-3" />
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <RedemptionStatusBadge status={redemption.status} />
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2 text-sm">
+                    {redemption.voucher_code ? (
+                      <p className="flex items-center">
+                        <Ticket className="h-4 w-4 mr-1 text-gray-500 shrink-0" />
+                        Code: <span className="ml-1 font-mono break-all">{redemption.voucher_code}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 ml-1"
+                          title="Copy code"
+                          onClick={() => {
+                            navigator.clipboard.writeText(redemption.voucher_code ?? "");
+                            toast.success("Code copied");
+                          }}
+                        >
+                          <Copy className="h-3.5 w-3.5" />
+                        </Button>
+                      </p>
+                    ) : redemption.shipping_address ? (
+                      <p className="flex items-start">
+                        <MapPin className="h-4 w-4 mr-1 mt-0.5 text-gray-500 shrink-0" />
+                        <span className="whitespace-pre-line">
+                          {redemption.recipient_name}
+                          {"\n"}
+                          {redemption.shipping_address}
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="text-gray-500">No delivery details recorded.</p>
+                    )}
+                    {redemption.tracking_reference && (
+                      <p className="flex items-center">
+                        <Truck className="h-4 w-4 mr-1 text-gray-500 shrink-0" />
+                        Tracking: <span className="ml-1 font-mono">{redemption.tracking_reference}</span>
+                      </p>
+                    )}
+                    {refunds[redemption.id] > 0 && (
+                      <p className="flex items-center text-green-600 dark:text-green-400">
+                        <Coins className="h-4 w-4 mr-1 shrink-0" />
+                        {refunds[redemption.id]} tokens for this reward were refunded to your balance.
+                      </p>
+                    )}
+                  </div>
+                  <RedemptionTimeline events={events[redemption.id] || []} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default MyRedemptions;
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { Camera, Upload, CheckCircle, XCircle, Loader2, MapPin, ArrowRight, RefreshCw } from "lucide-react";
+import { Camera, Upload, CheckCircle, XCircle, Loader2, MapPin, ArrowRight, Copy, Plus, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
@@ -7,55 +7,96 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
 import Layout from "@/components/Layout";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { createUtilsToast } from "@/lib/utils";
-import { updateUserTokensForReport } from "@/utils/rewardUtils";
+import { getTokensForWasteSize } from "@/utils/rewardUtils";
+import { ImageVerification } from "@/utils/verificationUtils";
+import { ReportDraft, deleteReportDraft, draftPhotos, saveReportDraft, submitReport } from "@/utils/draftUtils";
+import { MAX_REPORT_IMAGES, aggregateWasteSize } from "@/utils/reportUtils";
+import { CATEGORY_CONFIDENCE_THRESHOLD, WASTE_CATEGORIES, hasHazardousCategory } from "@/constants/wasteCategories";
+import { requestDraftSync } from "@/lib/serviceWorker";
+import ReportDrafts from "@/components/ReportDrafts";
+import { ReportImage, prepareReportImage } from "@/utils/imageUtils";
+import { reverseGeocode } from "@/utils/geocodingUtils";
+import { PhotoExif, readPhotoExif } from "@/utils/exifUtils";
+import { DuplicateWarning, checkForDuplicateReports } from "@/utils/duplicateUtils";
 
 interface LocationData {
   latitude: number;
   longitude: number;
   accuracy?: number;
   address?: string;
+  // Geocoder that resolved the address
+  source?: string;
 }
 
 interface DeviceInfo {
   source: 'camera' | 'upload';
   type?: string;
   model?: string;
-  exif?: {
-    timestamp?: string;
-    [key: string]: any;
-  };
+  // Null when the photo carries no EXIF metadata
+  exif: PhotoExif | null;
+}
+
+interface ReportPhoto {
+  // Content hash, so the same photo isn't added twice
+  key: string;
+  image: ReportImage;
+  deviceInfo: DeviceInfo;
+  verification: ImageVerification | null;
+  verifying: boolean;
 }
 
-const ReportWaste = () => {
+interface ReportWasteProps {
+  // Camera-first flow for the installed app's "Quick report" shortcut:
+  // location is looked up straight away and the form appears after the photo
+  quick?: boolean;
+}
+
+const ReportWaste = ({ quick = false }: ReportWasteProps) => {
   const [title, setTitle] = useState("");
-  const [wasteSize, setWasteSize] = useState<string>("small");
   const [location, setLocation] = useState("");
   const [description, setDescription] = useState("");
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // The first photo is the report's cover
+  const [photos, setPhotos] = useState<ReportPhoto[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Null until the reporter changes the detected categories
+  const [confirmedCategories, setConfirmedCategories] = useState<string[] | null>(null);
+  // Set while a saved draft is loaded into the form
+  const [draftId, setDraftId] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
-  const [verifying, setVerifying] = useState(false);
-  const [verification, setVerification] = useState<{
-    isWaste: boolean;
-    isAuthenticPhoto?: boolean;
-    confidence: number;
-    description: string;
-    reason: string;
-    wasteSize?: string;
-  } | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateWarning[]>([]);
   const [geoLocation, setGeoLocation] = useState<LocationData | null>(null);
   const [locationLoading, setLocationLoading] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [locationAttempts, setLocationAttempts] = useState(0);
-  const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
+
+  const selectedPhoto = photos[selectedIndex] ?? null;
+  const selectedVerification = selectedPhoto?.verification ?? null;
+  const verifying = photos.some(photo => photo.verifying);
+  // Mirrors the server, which sizes the report from all of its photos
+  const wasteSize = aggregateWasteSize(photos.map(photo => photo.verification?.wasteSize)) ?? "small";
+  // Highest confidence any photo gave each category
+  const detectedCategories = new Map<string, number>();
+  photos.forEach(({ verification }) => verification?.categories?.forEach(({ category, confidence }) => {
+    detectedCategories.set(category, Math.max(detectedCategories.get(category) ?? 0, confidence));
+  }));
+  const suggestedCategories = [...detectedCategories]
+    .filter(([, confidence]) => confidence >= CATEGORY_CONFIDENCE_THRESHOLD)
+    .map(([category]) => category);
+  const categories = confirmedCategories ?? suggestedCategories;
+  const hazardous = hasHazardousCategory(categories);
+  // A photo that was clearly rejected blocks the report until it is removed
+  const rejectedPhoto = photos.find(({ verification }) =>
+    verification && !verification.inconclusive && (!verification.isWaste || !verification.isAuthenticPhoto)
+  );
   
   // Enhanced location function with better handling for poor accuracy
   const getCurrentLocation = (isRetry = false) => {
@@ -119,33 +160,16 @@ const ReportWaste = () => {
       // Set initial location with coordinates
       setLocation(coordsString);
       
-      try {
-        // Try to get address from coordinates using reverse geocoding
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=18&addressdetails=1`,
-          { 
-            headers: { 
-              'Accept-Language': 'en',
-              'User-Agent': 'WasteTracker/1.0'
-            } 
-          }
-        );
-        
-        if (response.ok) {
-          const data = await response.json();
-          if (data && data.display_name) {
-            const address = data.display_name;
-            setGeoLocation(prevState => ({
-              ...prevState!,
-              address
-            }));
-            // Update location input with actual address
-            setLocation(address);
-          }
-        }
-      } catch (error) {
-        console.error("Error getting address:", error);
-        // Keep coordinates if address lookup fails
+      // Resolve an address; without one the coordinates stay as the location
+      const geocoded = await reverseGeocode(latitude, longitude);
+      if (geocoded) {
+        setGeoLocation(prevState => ({
+          ...prevState!,
+          address: geocoded.address,
+          source: geocoded.source
+        }));
+        // Update location input with actual address
+        setLocation(geocoded.address);
       }
       
       // Show appropriate toast message based on accuracy
@@ -188,6 +212,14 @@ const ReportWaste = () => {
     navigator.geolocation.getCurrentPosition(successCallback, errorCallback, options);
   };
 
+  // Quick reports start locating right away, while the user frames the photo
+  useEffect(() => {
+    if (quick) {
+      getCurrentLocation();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [quick]);
+
   // Handle camera capture specifically
   const handleCameraCapture = () => {
     if (cameraInputRef.current) {
@@ -195,48 +227,114 @@ const ReportWaste = () => {
     }
   };
   
+  const toggleCategory = (value: string) => {
+    const current = confirmedCategories ?? suggestedCategories;
+    setConfirmedCategories(
+      current.includes(value) ? current.filter(category => category !== value) : [...current, value]
+    );
+  };
+
+  const updatePhoto = (key: string, changes: Partial<ReportPhoto>) => {
+    setPhotos(prev => prev.map(photo => (photo.key === key ? { ...photo, ...changes } : photo)));
+  };
+  
   const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const preview = reader.result as string;
-        setImagePreview(preview);
-        
-        // Determine if this was a camera capture or file upload
-        // The accept attribute is what we use to detect if it's a camera input
-        const source = e.target.accept?.includes('capture=camera') ? 'camera' : 'upload';
-        
-        // Create device info object
-        const newDeviceInfo: DeviceInfo = {
+    const input = e.target;
+    const files = Array.from(input.files ?? []).slice(0, MAX_REPORT_IMAGES - photos.length);
+    // Clear the input so the same file can be picked again after removing it
+    input.value = "";
+    if (files.length === 0) {
+      return;
+    }
+
+    // Only the camera input opens the camera; the other one picks existing files
+    const source = input === cameraInputRef.current ? 'camera' : 'upload';
+    const added: ReportPhoto[] = [];
+
+    for (const file of files) {
+      // EXIF has to be read from the original: re-encoding drops it
+      const exif = await readPhotoExif(file);
+
+      let prepared: ReportImage;
+      try {
+        prepared = await prepareReportImage(file);
+      } catch (error) {
+        console.error("Error processing image:", error);
+        toast("Could not read this photo", {
+          description: "Please try a JPEG or PNG image.",
+          icon: "error",
+        });
+        continue;
+      }
+
+      if ([...photos, ...added].some(photo => photo.key === prepared.hash)) {
+        continue;
+      }
+
+      added.push({
+        key: prepared.hash,
+        image: prepared,
+        deviceInfo: {
           source,
           type: navigator.userAgent.includes('Mobile') ? 'mobile' : 'desktop',
           model: navigator.userAgent,
-          exif: {
-            timestamp: new Date().toISOString(),
-          }
-        };
-        
-        setDeviceInfo(newDeviceInfo);
-        
-        // Get location when image is uploaded if not already set
-        if (!geoLocation) {
-          getCurrentLocation();
-        }
-        
-        // Only verify after a short delay to ensure we might have location
-        setTimeout(() => {
-          verifyImage(preview, newDeviceInfo);
-        }, 500);
-      };
-      reader.readAsDataURL(file);
+          exif
+        },
+        verification: null,
+        verifying: false
+      });
+    }
+
+    if (added.length === 0) {
+      return;
+    }
+
+    const isFirstPhoto = photos.length === 0;
+    setPhotos(prev => [...prev, ...added]);
+    setSelectedIndex(photos.length);
+    
+    // Get location when image is uploaded if not already set
+    if (!geoLocation) {
+      getCurrentLocation();
     }
+    
+    // Offline, the photos are verified when the saved report is sent
+    if (!navigator.onLine) {
+      createUtilsToast.info("You're offline", "You can still submit; the report will be saved and sent later.");
+      return;
+    }
+    
+    // Only verify after a short delay to ensure we might have location
+    setTimeout(() => {
+      added.forEach(photo => verifyImage(photo.key, photo.image.image.dataUrl, photo.deviceInfo));
+      if (isFirstPhoto) {
+        checkDuplicates(added[0].image.image.dataUrl);
+      }
+    }, 500);
   };
 
-  const verifyImage = async (base64Image: string, deviceContext: DeviceInfo | null) => {
-    setVerifying(true);
-    setVerification(null);
+  const handleRemovePhoto = (index: number) => {
+    const remaining = photos.filter((_, i) => i !== index);
+    setPhotos(remaining);
+    setSelectedIndex(Math.min(selectedIndex, Math.max(remaining.length - 1, 0)));
+
+    if (remaining.length === 0) {
+      setDuplicates([]);
+      setGeoLocation(null);
+      setLocationAttempts(0);
+    } else if (index === 0 && navigator.onLine) {
+      // The next photo becomes the cover
+      checkDuplicates(remaining[0].image.image.dataUrl);
+    }
+  };
+
+  const checkDuplicates = async (base64Image: string) => {
+    setDuplicates([]);
+    setDuplicates(await checkForDuplicateReports(base64Image, geoLocation));
+  };
+
+  const verifyImage = async (key: string, base64Image: string, deviceContext: DeviceInfo | null) => {
+    updatePhoto(key, { verifying: true, verification: null });
     
     try {
       const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
@@ -260,17 +358,17 @@ const ReportWaste = () => {
       console.log("Verification response:", data);
       
       if (data.verification) {
-        setVerification(data.verification);
-        
-        // Set the waste size based on AI classification
-        if (data.verification.wasteSize) {
-          setWasteSize(data.verification.wasteSize);
-        }
+        updatePhoto(key, { verification: data.verification });
         
         // Check if image is authentic AND shows waste
-        if (!data.verification.isAuthenticPhoto) {
+        if (data.verification.inconclusive) {
+          toast("Verification inconclusive", {
+            description: "We couldn't get a clear answer about this photo. You can still submit and we'll check it again.",
+            icon: "error",
+          });
+        } else if (!data.verification.isAuthenticPhoto) {
           toast("Image not verified", {
-            description: "This appears to be an image from the internet, not a real photo taken by you.",
+            description: data.verification.reason || "This appears to be an image from the internet, not a real photo taken by you.",
             icon: "error",
           });
         } else if (!data.verification.isWaste) {
@@ -290,7 +388,8 @@ const ReportWaste = () => {
           setLocation(data.location.formattedAddress);
           setGeoLocation(prev => ({
             ...prev!,
-            address: data.location.formattedAddress
+            address: data.location.formattedAddress,
+            source: data.location.source || undefined
           }));
         }
       } else {
@@ -303,7 +402,48 @@ const ReportWaste = () => {
         icon: "error",
       });
     } finally {
-      setVerifying(false);
+      updatePhoto(key, { verifying: false });
+    }
+  };
+  
+  const resetForm = () => {
+    setTitle("");
+    setDescription("");
+    setLocation("");
+    setPhotos([]);
+    setSelectedIndex(0);
+    setConfirmedCategories(null);
+    setDuplicates([]);
+    setGeoLocation(null);
+    setLocationAttempts(0);
+    setLocationError(null);
+    setDraftId(null);
+  };
+  
+  // Load a saved draft back into the form to review and send it
+  const handleEditDraft = async (draft: ReportDraft) => {
+    const draftPhotoList: ReportPhoto[] = (await draftPhotos(draft)).map(({ reportImage, deviceInfo }) => ({
+      key: reportImage.hash,
+      image: reportImage,
+      deviceInfo: deviceInfo as DeviceInfo,
+      verification: null,
+      verifying: false
+    }));
+    
+    setDraftId(draft.id);
+    setTitle(draft.fields.title);
+    setDescription(draft.fields.description);
+    setLocation(draft.fields.location);
+    setGeoLocation(draft.fields.geoLocation);
+    setPhotos(draftPhotoList);
+    setSelectedIndex(0);
+    // Drafts saved before categories existed have none
+    setConfirmedCategories(draft.fields.categories ?? null);
+    setDuplicates([]);
+    
+    if (navigator.onLine && draftPhotoList.length > 0) {
+      draftPhotoList.forEach(photo => verifyImage(photo.key, photo.image.image.dataUrl, photo.deviceInfo));
+      checkDuplicates(draftPhotoList[0].image.image.dataUrl);
     }
   };
   
@@ -314,7 +454,14 @@ const ReportWaste = () => {
       return;
     }
     
-    // Check if image is verified as waste
+    if (photos.length === 0) {
+      createUtilsToast.error("Photo required", "Please take or upload a photo of the waste");
+      return;
+    }
+    
+    // Check if every image is verified as waste. Inconclusive results are
+    // checked again on submission.
+    const verification = rejectedPhoto?.verification;
     if (verification) {
       if (!verification.isAuthenticPhoto) {
         toast("Cannot submit report", {
@@ -335,81 +482,48 @@ const ReportWaste = () => {
     
     setSubmitting(true);
     
+    const fields = { title, description, location, geoLocation, categories: confirmedCategories };
+    const pending = photos.map(({ image, deviceInfo }) => ({ reportImage: image, deviceInfo }));
+    
     try {
-      let imageUrl = null;
+      // Uploads the photos, then the server verifies them again and decides the waste size
+      const result = await submitReport(user.id, fields, pending);
       
-      if (imageFile) {
-        const fileExt = imageFile.name.split('.').pop();
-        const fileName = `${Math.random()}.${fileExt}`;
-        const filePath = `${fileName}`;
-        
-        console.log("Uploading image to waste-images bucket...");
-        
-        const { error: uploadError } = await supabase.storage
-          .from('waste-images')
-          .upload(filePath, imageFile);
-          
-        if (uploadError) {
-          console.error("Upload error:", uploadError);
-          throw new Error(`Error uploading image: ${uploadError.message}`);
-        }
-        
-        const { data: { publicUrl } } = supabase.storage
-          .from('waste-images')
-          .getPublicUrl(filePath);
-          
-        imageUrl = publicUrl;
-        console.log("Image uploaded successfully:", imageUrl);
+      if (result.status === 'retry') {
+        // Keep the report on this device and send it once the connection is back
+        await saveReportDraft(user.id, fields, pending, { id: draftId ?? undefined, lastError: result.error });
+        requestDraftSync();
+        createUtilsToast.info(
+          "Report saved on this device",
+          "It will be sent automatically when you're back online."
+        );
+        resetForm();
+        return;
       }
       
-      console.log("Inserting waste report...");
-      const { error } = await supabase
-        .from('waste_reports')
-        .insert({
-          user_id: user.id,
-          title,
-          description,
-          location,
-          waste_size: wasteSize,
-          image_url: imageUrl,
-          status: 'approved' // Auto-approve for now
-        });
-        
-      if (error) {
-        console.error("Insert error:", error);
-        throw error;
+      if (result.status === 'rejected') {
+        throw new Error(result.error);
       }
       
       console.log("Waste report submitted successfully");
       
-      // Award tokens to the user
-      console.log("Awarding tokens to user...");
-      const tokenSuccess = await updateUserTokensForReport(user.id, wasteSize, title);
+      if (draftId) {
+        await deleteReportDraft(draftId);
+      }
       
-      if (tokenSuccess) {
-        createUtilsToast.success(
-          "Report submitted successfully!",
-          `You've earned ${wasteSize === "small" ? "5" : wasteSize === "medium" ? "15" : "30"} tokens for your contribution!`
-        );
-      } else {
-        createUtilsToast.success(
-          "Report submitted successfully!",
-          "Your report has been submitted for review."
+      createUtilsToast.success(
+        "Report submitted for review!",
+        `You'll earn ${getTokensForWasteSize(result.report.waste_size)} tokens once an admin approves your report.`
+      );
+
+      if (result.report.hazardous) {
+        createUtilsToast.warning(
+          "Flagged as hazardous waste",
+          "It won't be listed for volunteer collection. Please keep your distance."
         );
       }
-      
-      // Reset form
-      setTitle("");
-      setDescription("");
-      setLocation("");
-      setWasteSize("small");
-      setImageFile(null);
-      setImagePreview(null);
-      setVerification(null);
-      setGeoLocation(null);
-      setDeviceInfo(null);
-      setLocationAttempts(0);
-      setLocationError(null);
+
+      resetForm();
       
     } catch (error: any) {
       console.error("Error submitting report:", error);
@@ -505,280 +619,438 @@ const ReportWaste = () => {
             <div className="h-10 w-10 rounded-full bg-eco-light flex items-center justify-center">
               <MapPin className="h-5 w-5 text-eco" />
             </div>
-            Report Waste
+            {quick ? "Quick Report" : "Report Waste"}
           </h1>
           <p className="text-gray-600 max-w-lg">
-            Help us track and clean up plastic waste by reporting what you find. Your contributions earn you tokens and make our environment cleaner.
+            {quick
+              ? "Snap the waste and we'll fill in where you are. You can add details after the photo."
+              : "Help us track and clean up plastic waste by reporting what you find. Your contributions earn you tokens and make our environment cleaner."}
           </p>
         </div>
         
-        <Card className="border-eco/10 shadow-md overflow-hidden">
-          <CardHeader className="bg-gradient-to-r from-eco-light/30 to-transparent border-b border-eco/10">
-            <CardTitle>New Waste Report</CardTitle>
-            <CardDescription>
-              Upload a photo of the waste and provide details to earn rewards.
-            </CardDescription>
-          </CardHeader>
+        {/* Shared by the quick flow and the form */}
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={handleImageChange}
+        />
+        <input
+          ref={fileInputRef}
+          id="waste-image"
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={handleImageChange}
+        />
+        
+        {quick && photos.length === 0 ? (
+          <Card className="border-eco/10 shadow-md overflow-hidden">
+            <CardContent className="pt-6 space-y-4">
+              <Button
+                type="button"
+                size="lg"
+                className="bg-eco hover:bg-eco-dark w-full h-40 flex flex-col gap-3 text-lg"
+                onClick={handleCameraCapture}
+              >
+                <Camera className="h-12 w-12" />
+                Take a Photo
+              </Button>
+              <p className="flex items-center justify-center gap-2 text-sm text-gray-600">
+                {locationLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Finding your location...
+                  </>
+                ) : location ? (
+                  <>
+                    <MapPin className="h-4 w-4 text-eco" />
+                    {location}
+                  </>
+                ) : (
+                  locationError || "Location will be added after the photo"
+                )}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-eco/10 shadow-md overflow-hidden">
+            <CardHeader className="bg-gradient-to-r from-eco-light/30 to-transparent border-b border-eco/10">
+              <CardTitle>New Waste Report</CardTitle>
+              <CardDescription>
+                Upload a photo of the waste and provide details to earn rewards.
+              </CardDescription>
+            </CardHeader>
           
-          <CardContent className="pt-6">
-            <form onSubmit={handleSubmit}>
-              <div className="space-y-6">
-                {/* Title */}
-                <div>
-                  <Label htmlFor="title" className="text-base mb-2 block">Title</Label>
-                  <Input
-                    id="title"
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    placeholder="Brief title for your report"
-                    className="border-eco/30 focus:border-eco focus:ring-eco"
-                    required
-                  />
-                </div>
+            <CardContent className="pt-6">
+              <form onSubmit={handleSubmit}>
+                <div className="space-y-6">
+                  {/* Title */}
+                  <div>
+                    <Label htmlFor="title" className="text-base mb-2 block">Title</Label>
+                    <Input
+                      id="title"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      placeholder="Brief title for your report"
+                      className="border-eco/30 focus:border-eco focus:ring-eco"
+                      required
+                    />
+                  </div>
 
-                {/* Image Upload */}
-                <div>
-                  <Label className="text-base mb-2 block">
-                    Upload Image
-                  </Label>
+                  {/* Image Upload */}
+                  <div>
+                    <Label className="text-base mb-2 block">
+                      Photos
+                    </Label>
                   
-                  {imagePreview ? (
-                    <div className="relative rounded-lg overflow-hidden bg-black/5 border border-eco/10">
-                      <img
-                        src={imagePreview}
-                        alt="Waste preview"
-                        className="w-full h-64 object-cover"
-                      />
-                      <div className="absolute top-3 right-3 flex space-x-2">
-                        {verifying ? (
-                          <Button
-                            type="button"
-                            variant="secondary"
-                            size="sm"
-                            disabled
-                            className="bg-white/70 backdrop-blur-sm shadow-sm"
-                          >
-                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                            Verifying...
-                          </Button>
-                        ) : verification ? (
-                          <Button
-                            type="button"
-                            variant={verification.isWaste && verification.isAuthenticPhoto ? "default" : "destructive"}
-                            size="sm"
-                            className={verification.isWaste && verification.isAuthenticPhoto ? 
-                              "bg-green-500 hover:bg-green-600" : 
-                              "bg-red-500 hover:bg-red-600"
+                    {selectedPhoto ? (
+                      <div>
+                        <div className="relative rounded-lg overflow-hidden bg-black/5 border border-eco/10">
+                          <img
+                            src={selectedPhoto.image.image.dataUrl}
+                            alt="Waste preview"
+                            className="w-full h-64 object-cover"
+                          />
+                          <div className="absolute top-3 right-3 flex space-x-2">
+                            {selectedPhoto.verifying ? (
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                disabled
+                                className="bg-white/70 backdrop-blur-sm shadow-sm"
+                              >
+                                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                                Verifying...
+                              </Button>
+                            ) : selectedVerification ? (
+                              <Button
+                                type="button"
+                                variant={selectedVerification.isWaste && selectedVerification.isAuthenticPhoto ? "default" : "destructive"}
+                                size="sm"
+                                className={selectedVerification.isWaste && selectedVerification.isAuthenticPhoto ? 
+                                  "bg-green-500 hover:bg-green-600" : 
+                                  "bg-red-500 hover:bg-red-600"
+                                }
+                              >
+                                {selectedVerification.isWaste && selectedVerification.isAuthenticPhoto ? (
+                                  <CheckCircle className="h-4 w-4 mr-2" />
+                                ) : (
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                )}
+                                {selectedVerification.isWaste && selectedVerification.isAuthenticPhoto ? "Verified" : "Not Verified"}
+                              </Button>
+                            ) : null}
+                            <Button
+                              type="button"
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleRemovePhoto(selectedIndex)}
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                          {selectedIndex === 0 && photos.length > 1 && (
+                            <span className="absolute top-3 left-3 rounded-full bg-white/80 px-2 py-1 text-xs font-medium text-eco-dark">
+                              Cover photo
+                            </span>
+                          )}
+                        </div>
+
+                        {/* Thumbnails of all photos, with a tile to add more */}
+                        <div className="mt-3 flex gap-2 overflow-x-auto">
+                          {photos.map((photo, index) => (
+                            <button
+                              key={photo.key}
+                              type="button"
+                              onClick={() => setSelectedIndex(index)}
+                              className={`relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border-2 ${
+                                index === selectedIndex ? "border-eco" : "border-transparent"
+                              }`}
+                            >
+                              <img
+                                src={photo.image.thumbnail.dataUrl}
+                                alt={`Photo ${index + 1}`}
+                                className="h-full w-full object-cover"
+                              />
+                              {photo.verifying ? (
+                                <Loader2 className="absolute bottom-1 right-1 h-4 w-4 animate-spin text-white" />
+                              ) : photo.verification && !photo.verification.inconclusive && (
+                                photo.verification.isWaste && photo.verification.isAuthenticPhoto ? (
+                                  <CheckCircle className="absolute bottom-1 right-1 h-4 w-4 rounded-full bg-white text-green-500" />
+                                ) : (
+                                  <XCircle className="absolute bottom-1 right-1 h-4 w-4 rounded-full bg-white text-red-500" />
+                                )
+                              )}
+                            </button>
+                          ))}
+                          {photos.length < MAX_REPORT_IMAGES && (
+                            <button
+                              type="button"
+                              onClick={() => (navigator.userAgent.includes('Mobile') ? cameraInputRef : fileInputRef).current?.click()}
+                              className="flex h-16 w-16 flex-shrink-0 flex-col items-center justify-center rounded-md border-2 border-dashed border-eco/40 text-eco hover:bg-eco-light/20"
+                            >
+                              <Plus className="h-5 w-5" />
+                              <span className="text-[10px]">Add photo</span>
+                            </button>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Add up to {MAX_REPORT_IMAGES} photos from different angles. Each one is verified.
+                        </p>
+                      
+                        {selectedVerification && (
+                          <Alert className="mt-3" variant={selectedVerification.isWaste && selectedVerification.isAuthenticPhoto ? "default" : "destructive"}>
+                            <AlertTitle className="flex items-center">
+                              {selectedVerification.inconclusive ? (
+                                <>
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Verification inconclusive
+                                </>
+                              ) : !selectedVerification.isAuthenticPhoto ? (
+                                <>
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Not a genuine photo
+                                </>
+                              ) : selectedVerification.isWaste ? (
+                                <>
+                                  <CheckCircle className="h-4 w-4 mr-2" />
+                                  Verified as {selectedVerification.wasteSize || 'small'} waste ({selectedVerification.confidence}% confidence)
+                                </>
+                              ) : (
+                                <>
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Not verified as waste
+                                </>
+                              )}
+                            </AlertTitle>
+                            <AlertDescription className="text-sm mt-1">
+                              {selectedVerification.inconclusive
+                                ? "We couldn't get a clear answer about this photo. It will be checked again when you submit."
+                                : selectedVerification.reason}
+                            </AlertDescription>
+                          </Alert>
+                        )}
+
+                        {duplicates.length > 0 && (
+                          <Alert className="mt-3 border-amber-300 bg-amber-50">
+                            <AlertTitle className="flex items-center text-amber-800">
+                              <Copy className="h-4 w-4 mr-2" />
+                              This may already be reported
+                            </AlertTitle>
+                            <AlertDescription className="text-sm mt-1 text-amber-800">
+                              <ul className="list-disc pl-5 space-y-1">
+                                {duplicates.map((duplicate) => (
+                                  <li key={duplicate.id}>
+                                    "{duplicate.title}" ({formatDistanceToNow(new Date(duplicate.created_at), { addSuffix: true })}
+                                    {duplicate.samePhoto
+                                      ? ", same photo"
+                                      : duplicate.distanceMeters !== null && `, ${duplicate.distanceMeters} m away`})
+                                  </li>
+                                ))}
+                              </ul>
+                              <p className="mt-2">
+                                If this is the same waste, there's no need to report it again. Duplicate reports are merged and don't earn tokens.
+                              </p>
+                            </AlertDescription>
+                          </Alert>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        <div 
+                          className="border-2 border-dashed border-eco rounded-xl p-8 text-center cursor-pointer hover:border-eco-dark bg-eco-light/20 hover:bg-eco-light/30 transition-all duration-200"
+                          onClick={() => {
+                            if (navigator.userAgent.includes('Mobile')) {
+                              if (cameraInputRef.current) {
+                                cameraInputRef.current.click();
+                              }
+                            } else {
+                              toast("Camera Access", {
+                                description: "On desktop browsers, camera access may be limited. Consider using the file upload option if the camera doesn't work.",
+                              });
+                              if (cameraInputRef.current) {
+                                cameraInputRef.current.click();
+                              }
                             }
-                          >
-                            {verification.isWaste && verification.isAuthenticPhoto ? (
-                              <CheckCircle className="h-4 w-4 mr-2" />
-                            ) : (
-                              <XCircle className="h-4 w-4 mr-2" />
-                            )}
-                            {verification.isWaste && verification.isAuthenticPhoto ? "Verified" : "Not Verified"}
-                          </Button>
-                        ) : null}
-                        <Button
-                          type="button"
-                          variant="destructive"
-                          size="sm"
+                          }}
+                        >
+                          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-eco-light/60 flex items-center justify-center">
+                            <Camera className="h-8 w-8 text-eco" />
+                          </div>
+                          <p className="text-lg font-medium text-eco-dark mb-2">Take a Photo</p>
+                          <p className="text-sm text-gray-600">Use your camera to capture waste directly</p>
+                        </div>
+                      
+                        <div className="flex items-center">
+                          <div className="flex-grow border-t border-gray-300"></div>
+                          <span className="mx-4 text-gray-500 text-sm">OR</span>
+                          <div className="flex-grow border-t border-gray-300"></div>
+                        </div>
+                      
+                        <div 
+                          className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center cursor-pointer hover:border-gray-400 hover:bg-gray-50 transition-all duration-200"
                           onClick={() => {
-                            setImagePreview(null);
-                            setImageFile(null);
-                            setVerification(null);
-                            setGeoLocation(null);
-                            setDeviceInfo(null);
-                            setLocationAttempts(0);
+                            if (fileInputRef.current) {
+                              fileInputRef.current.click();
+                            }
                           }}
                         >
-                          Remove
-                        </Button>
+                          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-100 flex items-center justify-center">
+                            <Upload className="h-8 w-8 text-gray-500" />
+                          </div>
+                          <p className="text-base text-gray-700 mb-1">Upload from device</p>
+                          <p className="text-xs text-gray-500">PNG, JPG, up to {MAX_REPORT_IMAGES} photos</p>
+                        </div>
                       </div>
-                      
-                      {verification && (
-                        <Alert className="mt-3" variant={verification.isWaste && verification.isAuthenticPhoto ? "default" : "destructive"}>
-                          <AlertTitle className="flex items-center">
-                            {!verification.isAuthenticPhoto ? (
-                              <>
-                                <XCircle className="h-4 w-4 mr-2" />
-                                Not a genuine photo
-                              </>
-                            ) : verification.isWaste ? (
-                              <>
-                                <CheckCircle className="h-4 w-4 mr-2" />
-                                Verified as {verification.wasteSize || 'small'} waste ({verification.confidence}% confidence)
-                              </>
-                            ) : (
-                              <>
-                                <XCircle className="h-4 w-4 mr-2" />
-                                Not verified as waste
-                              </>
-                            )}
-                          </AlertTitle>
-                          <AlertDescription className="text-sm mt-1">
-                            {!verification.isAuthenticPhoto 
-                              ? "This appears to be an image from the internet, not a real photo taken by you."
-                              : verification.reason}
-                          </AlertDescription>
-                        </Alert>
+                    )}
+                  </div>
+                
+                  {/* Waste Size - AI Determined */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <Label className="text-base">Waste Size</Label>
+                      {photos.some(photo => photo.verification?.wasteSize) && (
+                        <span className="text-sm bg-eco-light/30 text-eco-dark px-2 py-1 rounded-full">
+                          AI classified as: {wasteSize}
+                        </span>
                       )}
                     </div>
-                  ) : (
-                    <div className="space-y-4">
-                      <div 
-                        className="border-2 border-dashed border-eco rounded-xl p-8 text-center cursor-pointer hover:border-eco-dark bg-eco-light/20 hover:bg-eco-light/30 transition-all duration-200"
-                        onClick={() => {
-                          if (navigator.userAgent.includes('Mobile')) {
-                            if (cameraInputRef.current) {
-                              cameraInputRef.current.click();
-                            }
-                          } else {
-                            toast("Camera Access", {
-                              description: "On desktop browsers, camera access may be limited. Consider using the file upload option if the camera doesn't work.",
-                            });
-                            if (cameraInputRef.current) {
-                              cameraInputRef.current.click();
-                            }
-                          }
-                        }}
+                    <div className="bg-gray-50 p-4 rounded-lg border border-gray-100">
+                      {/* Read-only: the size is confirmed server-side when the report is submitted */}
+                      <RadioGroup
+                        value={wasteSize}
+                        disabled
+                        className="flex flex-col sm:flex-row gap-4"
                       >
-                        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-eco-light/60 flex items-center justify-center">
-                          <Camera className="h-8 w-8 text-eco" />
+                        <div className="flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-white transition-colors">
+                          <RadioGroupItem value="small" id="small" className="text-eco border-eco" />
+                          <Label htmlFor="small" className="font-medium flex items-center gap-2">
+                            <span className="text-eco bg-eco/10 h-6 w-6 flex items-center justify-center rounded-full text-xs">5</span>
+                            Small (5 tokens)
+                          </Label>
                         </div>
-                        <p className="text-lg font-medium text-eco-dark mb-2">Take a Photo</p>
-                        <p className="text-sm text-gray-600">Use your camera to capture waste directly</p>
-                        <input
-                          ref={cameraInputRef}
-                          type="file"
-                          accept="image/*"
-                          capture="environment"
-                          className="hidden"
-                          onChange={handleImageChange}
-                        />
-                      </div>
-                      
-                      <div className="flex items-center">
-                        <div className="flex-grow border-t border-gray-300"></div>
-                        <span className="mx-4 text-gray-500 text-sm">OR</span>
-                        <div className="flex-grow border-t border-gray-300"></div>
-                      </div>
-                      
-                      <div 
-                        className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center cursor-pointer hover:border-gray-400 hover:bg-gray-50 transition-all duration-200"
-                        onClick={() => {
-                          if (fileInputRef.current) {
-                            fileInputRef.current.click();
-                          }
-                        }}
-                      >
-                        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-100 flex items-center justify-center">
-                          <Upload className="h-8 w-8 text-gray-500" />
+                        <div className="flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-white transition-colors">
+                          <RadioGroupItem value="medium" id="medium" className="text-eco border-eco" />
+                          <Label htmlFor="medium" className="font-medium flex items-center gap-2">
+                            <span className="text-eco bg-eco/10 h-6 w-6 flex items-center justify-center rounded-full text-xs">15</span>
+                            Medium (15 tokens)
+                          </Label>
                         </div>
-                        <p className="text-base text-gray-700 mb-1">Upload from device</p>
-                        <p className="text-xs text-gray-500">PNG, JPG up to 5MB</p>
-                        <input
-                          ref={fileInputRef}
-                          id="waste-image"
-                          type="file"
-                          accept="image/*"
-                          className="hidden"
-                          onChange={handleImageChange}
-                        />
-                      </div>
+                        <div className="flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-white transition-colors">
+                          <RadioGroupItem value="large" id="large" className="text-eco border-eco" />
+                          <Label htmlFor="large" className="font-medium flex items-center gap-2">
+                            <span className="text-eco bg-eco/10 h-6 w-6 flex items-center justify-center rounded-full text-xs">30</span>
+                            Large (30 tokens)
+                          </Label>
+                        </div>
+                      </RadioGroup>
+                      <p className="text-xs text-gray-500 mt-2">
+                        The waste size is set by photo verification (the most common size across your photos) and confirmed when you submit.
+                      </p>
                     </div>
-                  )}
-                </div>
+                  </div>
                 
-                {/* Waste Size - AI Determined */}
-                <div>
-                  <div className="flex items-center justify-between mb-2">
-                    <Label className="text-base">Waste Size</Label>
-                    {verification && verification.wasteSize && (
-                      <span className="text-sm bg-eco-light/30 text-eco-dark px-2 py-1 rounded-full">
-                        AI classified as: {verification.wasteSize}
-                      </span>
+                  {/* Waste Types - AI suggested, confirmed by the reporter */}
+                  <div>
+                    <Label className="text-base mb-2 block">Waste Types</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {WASTE_CATEGORIES.map(({ value, label }) => {
+                        const selected = categories.includes(value);
+                        const confidence = detectedCategories.get(value);
+                        return (
+                          <Button
+                            key={value}
+                            type="button"
+                            size="sm"
+                            variant={selected ? "default" : "outline"}
+                            className={selected ? "bg-eco hover:bg-eco-dark" : ""}
+                            onClick={() => toggleCategory(value)}
+                          >
+                            {label}
+                            {confidence !== undefined && (
+                              <span className="ml-1 text-xs opacity-70">{Math.round(confidence)}%</span>
+                            )}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {detectedCategories.size > 0
+                        ? "Suggested from your photos. Tap to add or remove types."
+                        : "Types are suggested once your photos are verified. You can also pick them yourself."}
+                    </p>
+
+                    {hazardous && (
+                      <Alert className="mt-3" variant="destructive">
+                        <AlertTitle className="flex items-center">
+                          <AlertTriangle className="h-4 w-4 mr-2" />
+                          Hazardous waste: don't handle it yourself
+                        </AlertTitle>
+                        <AlertDescription className="text-sm mt-1">
+                          Keep a safe distance. This report won't be listed for volunteer collection;
+                          it will be flagged for special handling instead.
+                        </AlertDescription>
+                      </Alert>
                     )}
                   </div>
-                  <div className="bg-gray-50 p-4 rounded-lg border border-gray-100">
-                    <RadioGroup
-                      value={wasteSize}
-                      onValueChange={setWasteSize}
-                      className="flex flex-col sm:flex-row gap-4"
-                    >
-                      <div className="flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-white transition-colors">
-                        <RadioGroupItem value="small" id="small" className="text-eco border-eco" />
-                        <Label htmlFor="small" className="font-medium flex items-center gap-2">
-                          <span className="text-eco bg-eco/10 h-6 w-6 flex items-center justify-center rounded-full text-xs">5</span>
-                          Small (5 tokens)
-                        </Label>
-                      </div>
-                      <div className="flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-white transition-colors">
-                        <RadioGroupItem value="medium" id="medium" className="text-eco border-eco" />
-                        <Label htmlFor="medium" className="font-medium flex items-center gap-2">
-                          <span className="text-eco bg-eco/10 h-6 w-6 flex items-center justify-center rounded-full text-xs">15</span>
-                          Medium (15 tokens)
-                        </Label>
-                      </div>
-                      <div className="flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-white transition-colors">
-                        <RadioGroupItem value="large" id="large" className="text-eco border-eco" />
-                        <Label htmlFor="large" className="font-medium flex items-center gap-2">
-                          <span className="text-eco bg-eco/10 h-6 w-6 flex items-center justify-center rounded-full text-xs">30</span>
-                          Large (30 tokens)
-                        </Label>
-                      </div>
-                    </RadioGroup>
-                  </div>
-                </div>
                 
-                {/* Location */}
-                {renderLocationSection()}
+                  {/* Location */}
+                  {renderLocationSection()}
                 
-                {/* Description */}
-                <div>
-                  <Label htmlFor="description" className="text-base mb-2 block">
-                    Description
-                  </Label>
-                  <Textarea
-                    id="description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    placeholder="Provide additional details about the waste"
-                    className="min-h-[120px] border-eco/30 focus:border-eco focus:ring-eco resize-none"
-                  />
+                  {/* Description */}
+                  <div>
+                    <Label htmlFor="description" className="text-base mb-2 block">
+                      Description
+                    </Label>
+                    <Textarea
+                      id="description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Provide additional details about the waste"
+                      className="min-h-[120px] border-eco/30 focus:border-eco focus:ring-eco resize-none"
+                    />
+                  </div>
                 </div>
-              </div>
-            </form>
-          </CardContent>
+              </form>
+            </CardContent>
           
-          <CardFooter className="flex justify-end border-t border-eco/10 pt-6">
-            <Button 
-              className="bg-eco hover:bg-eco-dark w-full sm:w-auto text-base font-medium shadow-md hover:shadow-lg"
-              onClick={handleSubmit}
-              size="lg"
-              disabled={
-                !title || 
-                !location || 
-                submitting || 
-                verifying || 
-                (verification && (!verification.isWaste || !verification.isAuthenticPhoto))
-              }
-            >
-              {submitting ? (
-                <div className="flex items-center justify-center gap-2">
-                  <Loader2 className="h-5 w-5 animate-spin" />
-                  Processing...
-                </div>
-              ) : (
-                <div className="flex items-center justify-center gap-2">
-                  <Upload className="h-5 w-5" />
-                  Submit Report
-                  <ArrowRight className="h-4 w-4 ml-1 opacity-70" />
-                </div>
-              )}
-            </Button>
-          </CardFooter>
-        </Card>
+            <CardFooter className="flex justify-end border-t border-eco/10 pt-6">
+              <Button 
+                className="bg-eco hover:bg-eco-dark w-full sm:w-auto text-base font-medium shadow-md hover:shadow-lg"
+                onClick={handleSubmit}
+                size="lg"
+                disabled={
+                  !title || 
+                  !location || 
+                  photos.length === 0 || 
+                  submitting || 
+                  verifying || 
+                  !!rejectedPhoto
+                }
+              >
+                {submitting ? (
+                  <div className="flex items-center justify-center gap-2">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                    Processing...
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center gap-2">
+                    <Upload className="h-5 w-5" />
+                    Submit Report
+                    <ArrowRight className="h-4 w-4 ml-1 opacity-70" />
+                  </div>
+                )}
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+        
+        <ReportDrafts activeDraftId={draftId} onEdit={handleEditDraft} />
       </div>
     </Layout>
   );
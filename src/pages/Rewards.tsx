@@ -1,6 +1,12 @@
 import { useState, useEffect } from "react";
-import { Coins, Gift, CheckCircle, ArrowRight, Loader2, AlertCircle } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Coins, Gift, CheckCircle, ArrowRight, Loader2, AlertCircle, Package, Bell, BellOff, Copy, Ticket } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
@@ -8,21 +14,25 @@ import Layout from "@/components/Layout";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase";
 import TransactionHistory from "@/components/TransactionHistory";
-
-interface RewardItem {
-  id: string;
-  title: string;
-  description: string;
-  token_cost: number;
-  image_url: string;
-  available?: boolean;
-}
+import {
+  DEFAULT_REWARD_IMAGE,
+  Reward,
+  WaitlistEntry,
+  fetchMyWaitlist,
+  fetchRewardCatalog,
+  isLowStock,
+  joinRewardWaitlist,
+  leaveRewardWaitlist,
+  redeemReward,
+  rewardUnavailableReason
+} from "@/utils/rewardUtils";
+import { ShippingDetails, fetchRedemptionVoucherCode } from "@/utils/redemptionUtils";
 
 interface TokenTransaction {
   id: string;
   amount: number;
   description: string;
-  transaction_type: 'earned' | 'spent';
+  transaction_type: 'earned' | 'spent' | 'refund';
   created_at: string;
 }
 
@@ -31,9 +41,16 @@ interface UserTokens {
   level: number;
 }
 
+const EMPTY_SHIPPING: ShippingDetails = {
+  recipientName: "",
+  shippingAddress: "",
+  contactPhone: "",
+  deliveryInstructions: ""
+};
+
 const Rewards = () => {
   const { user } = useAuth();
-  const [rewards, setRewards] = useState<RewardItem[]>([]);
+  const [rewards, setRewards] = useState<Reward[]>([]);
   const [userTokens, setUserTokens] = useState<UserTokens | null>(null);
   const [transactions, setTransactions] = useState<TokenTransaction[]>([]);
   const [showTransactionHistory, setShowTransactionHistory] = useState(false);
@@ -44,6 +61,16 @@ const Rewards = () => {
     redemption: false
   });
   const [error, setError] = useState<string | null>(null);
+  // The reward whose delivery details are being entered
+  const [redeemingReward, setRedeemingReward] = useState<Reward | null>(null);
+  // One key per attempt, so retrying after a timeout can't charge twice
+  const [redemptionKey, setRedemptionKey] = useState<string | null>(null);
+  const [shipping, setShipping] = useState<ShippingDetails>(EMPTY_SHIPPING);
+  // The code just issued for a voucher reward, shown until dismissed
+  const [issuedVoucher, setIssuedVoucher] = useState<{ title: string; code: string | null } | null>(null);
+  // Restock waitlists the user has joined, keyed by reward id
+  const [waitlist, setWaitlist] = useState<Record<string, WaitlistEntry>>({});
+  const [waitlistBusyId, setWaitlistBusyId] = useState<string | null>(null);
   
   // Calculate tokens needed for next level
   const getNextLevelTarget = () => {
@@ -93,16 +120,9 @@ const Rewards = () => {
           .single();
         
         if (error) {
-          // If record doesn't exist, create a new one
+          // No record yet: the ledger creates one with the user's first transaction
           if (error.code === 'PGRST116') {
-            const { data: newData, error: insertError } = await supabase
-              .from('user_tokens')
-              .insert({ user_id: user.id, balance: 0, level: 1 })
-              .select()
-              .single();
-            
-            if (insertError) throw insertError;
-            setUserTokens(newData as UserTokens);
+            setUserTokens({ balance: 0, level: 1 });
           } else {
             throw error;
           }
@@ -123,25 +143,24 @@ const Rewards = () => {
   // Fetch available rewards
   useEffect(() => {
     const fetchRewards = async () => {
-      try {
-        const { data, error } = await supabase
-          .from('rewards')
-          .select('*')
-          .order('token_cost', { ascending: true });
-        
-        if (error) throw error;
-        setRewards(data as RewardItem[]);
-      } catch (error: any) {
-        console.error("Error fetching rewards:", error);
-        setError("Failed to load available rewards.");
-      } finally {
-        setLoading(prev => ({ ...prev, rewards: false }));
-      }
+      setRewards(await fetchRewardCatalog());
+      setLoading(prev => ({ ...prev, rewards: false }));
     };
     
     fetchRewards();
   }, []);
   
+  // Fetch the user's restock waitlists
+  useEffect(() => {
+    if (!user) return;
+    
+    const loadWaitlist = async () => {
+      setWaitlist(await fetchMyWaitlist(user.id));
+    };
+    
+    loadWaitlist();
+  }, [user]);
+  
   // Fetch recent transactions (only top 3, no duplicates)
   useEffect(() => {
     if (!user) return;
@@ -182,26 +201,8 @@ const Rewards = () => {
     fetchTransactions();
   }, [user]);
   
-  // Function to get proper image for rewards
-  const getRewardImage = (reward: RewardItem) => {
-    // Map specific reward titles to appropriate images
-    if (reward.title.toLowerCase().includes('amazon') || reward.title.toLowerCase().includes('gift card')) {
-      return 'https://images.unsplash.com/photo-1513475382585-d06e58bcb0e0?w=400&h=300&fit=crop&crop=center';
-    }
-    if (reward.title.toLowerCase().includes('bag') || reward.title.toLowerCase().includes('shopping')) {
-      return 'https://images.unsplash.com/photo-1553062407-98eeb64c6a62?w=400&h=300&fit=crop&crop=center';
-    }
-    if (reward.title.toLowerCase().includes('bottle') || reward.title.toLowerCase().includes('water')) {
-      return 'https://images.unsplash.com/photo-1602143407151-7111542de6e8?w=400&h=300&fit=crop&crop=center';
-    }
-    if (reward.title.toLowerCase().includes('plant') || reward.title.toLowerCase().includes('tree')) {
-      return 'https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=400&h=300&fit=crop&crop=center';
-    }
-    // Default eco-friendly image
-    return 'https://images.unsplash.com/photo-1556075798-4825dfaaf498?w=400&h=300&fit=crop&crop=center';
-  };
-  
-  const handleRedeemReward = async (reward: RewardItem) => {
+  // Ask where to deliver the reward before redeeming it
+  const handleRedeemClick = async (reward: Reward) => {
     if (!user || !userTokens) return;
     
     // Check if user has enough tokens
@@ -213,57 +214,65 @@ const Rewards = () => {
       return;
     }
     
+    setRedeemingReward(reward);
+    setRedemptionKey(crypto.randomUUID());
+    
+    // Start from the name on the user's profile
+    if (reward.delivery_method === 'physical' && !shipping.recipientName) {
+      const { data } = await supabase
+        .from('user_profiles')
+        .select('full_name')
+        .eq('id', user.id)
+        .maybeSingle();
+      if (data?.full_name) {
+        setShipping(prev => ({ ...prev, recipientName: prev.recipientName || data.full_name }));
+      }
+    }
+  };
+  
+  const handleRedeemReward = async () => {
+    const reward = redeemingReward;
+    if (!user || !userTokens || !reward || !redemptionKey) return;
+    
+    const isVoucher = reward.delivery_method === 'voucher';
+    if (!isVoucher && (!shipping.recipientName.trim() || !shipping.shippingAddress.trim())) {
+      toast("Delivery details required", {
+        description: "Please enter who the reward is for and where to deliver it.",
+        icon: <AlertCircle className="h-4 w-4 text-red-500" />,
+      });
+      return;
+    }
+    
     setLoading(prev => ({ ...prev, redemption: true }));
     
     try {
-      // Start a transaction to ensure all operations complete
-      // 1. Insert into redeemed_rewards
-      const { data: redemptionData, error: redemptionError } = await supabase
-        .from('redeemed_rewards')
-        .insert({
-          user_id: user.id,
-          reward_id: reward.id,
-          status: 'pending'
-        })
-        .select()
-        .single();
+      // 1. Redeem on the server: the redemption, ledger entry and balance
+      //    update succeed or fail together, and overdrafts are rejected
+      const { redemptionId, error: redemptionError } = await redeemReward(
+        reward.id,
+        redemptionKey,
+        isVoucher ? EMPTY_SHIPPING : shipping
+      );
       
-      if (redemptionError) throw redemptionError;
+      if (redemptionError) throw new Error(redemptionError);
       
-      // 2. Create a token transaction record with unique timestamp
-      const { error: transactionError } = await supabase
-        .from('token_transactions')
-        .insert({
-          user_id: user.id,
-          amount: reward.token_cost,
-          description: `Redeemed: ${reward.title}`,
-          transaction_type: 'spent',
-          source_type: 'reward_redemption',
-          source_id: redemptionData.id
-        });
-      
-      if (transactionError) throw transactionError;
-      
-      // 3. Update user token balance
-      const { error: updateError } = await supabase
+      if (isVoucher) {
+        setIssuedVoucher({ title: reward.title, code: await fetchRedemptionVoucherCode(redemptionId) });
+      }
+
+      // 2. Refresh the balance from the ledger
+      const { data: tokenData, error: tokenError } = await supabase
         .from('user_tokens')
-        .update({ 
-          balance: userTokens.balance - reward.token_cost,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', user.id);
-      
-      if (updateError) throw updateError;
+        .select('balance, level')
+        .eq('user_id', user.id)
+        .single();
       
-      // 4. Update local state
-      setUserTokens({
-        ...userTokens,
-        balance: userTokens.balance - reward.token_cost
-      });
+      if (tokenError) throw tokenError;
+      setUserTokens(tokenData as UserTokens);
       
-      // 5. Add new transaction to the list (prevent duplicates)
+      // 3. Add new transaction to the list (prevent duplicates)
       const newTransaction = {
-        id: redemptionData.id,
+        id: redemptionId,
         amount: reward.token_cost,
         description: `Redeemed: ${reward.title}`,
         transaction_type: 'spent' as 'spent',
@@ -281,20 +290,74 @@ const Rewards = () => {
       });
       
       toast("Reward redeemed successfully!", {
-        description: `You've redeemed ${reward.title}. It will be delivered to your address.`,
+        description: isVoucher
+          ? `You've redeemed ${reward.title}. Your code is also kept under My Redemptions.`
+          : `You've redeemed ${reward.title}. You can follow its delivery under My Redemptions.`,
         icon: <CheckCircle className="h-4 w-4 text-green-500" />,
       });
+      
+      setRedeemingReward(null);
+      
+      // The server took one unit from stock and ended any wait for it
+      setRewards(prev => prev.map(r =>
+        r.id === reward.id && r.stock_quantity !== null ? { ...r, stock_quantity: r.stock_quantity - 1 } : r
+      ));
+      setWaitlist(prev => {
+        const { [reward.id]: _done, ...rest } = prev;
+        return rest;
+      });
     } catch (error: any) {
       console.error("Error redeeming reward:", error);
+      const outOfStock = error.message?.includes("out of stock");
       toast("Failed to redeem reward", {
-        description: "Please try again later.",
+        description: error.message?.includes("Insufficient token balance")
+          ? "You don't have enough tokens for this reward."
+          : outOfStock
+          ? "Someone got the last one. You can join the waitlist to hear when it's back."
+          : error.message?.includes("at most")
+          ? error.message
+          : "Please try again later.",
         icon: <AlertCircle className="h-4 w-4 text-red-500" />,
       });
+      
+      if (outOfStock) {
+        setRedeemingReward(null);
+        setRewards(await fetchRewardCatalog());
+      }
     } finally {
       setLoading(prev => ({ ...prev, redemption: false }));
     }
   };
   
+  const handleToggleWaitlist = async (reward: Reward) => {
+    const waiting = !!waitlist[reward.id] && !waitlist[reward.id].restocked_at;
+    
+    setWaitlistBusyId(reward.id);
+    const { error } = waiting ? await leaveRewardWaitlist(reward.id) : await joinRewardWaitlist(reward.id);
+    setWaitlistBusyId(null);
+    
+    if (error) {
+      toast(waiting ? "Failed to leave the waitlist" : "Failed to join the waitlist", {
+        description: error,
+        icon: <AlertCircle className="h-4 w-4 text-red-500" />,
+      });
+      return;
+    }
+    
+    if (waiting) {
+      setWaitlist(prev => {
+        const { [reward.id]: _left, ...rest } = prev;
+        return rest;
+      });
+    } else {
+      setWaitlist(prev => ({ ...prev, [reward.id]: { reward_id: reward.id, restocked_at: null } }));
+      toast("You're on the waitlist", {
+        description: `We'll flag ${reward.title} here as soon as it's back in stock.`,
+        icon: <Bell className="h-4 w-4 text-eco" />,
+      });
+    }
+  };
+  
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { 
@@ -332,10 +395,20 @@ const Rewards = () => {
   return (
     <Layout>
       <div className="max-w-4xl mx-auto">
-        <h1 className="text-3xl font-bold mb-2">Rewards</h1>
-        <p className="text-gray-600 dark:text-gray-300 mb-8">
-          Redeem your earned tokens for eco-friendly rewards and discounts.
-        </p>
+        <div className="flex items-start justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Rewards</h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Redeem your earned tokens for eco-friendly rewards and discounts.
+            </p>
+          </div>
+          <Button asChild variant="outline" className="shrink-0">
+            <Link to="/redemptions">
+              <Package className="mr-2 h-4 w-4" />
+              My Redemptions
+            </Link>
+          </Button>
+        </div>
         
         {/* Tokens Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 mb-8 border dark:border-gray-700">
@@ -403,8 +476,8 @@ const Rewards = () => {
                       <p className="font-medium text-gray-900 dark:text-white">{transaction.description}</p>
                       <p className="text-sm text-gray-500 dark:text-gray-400">{formatDate(transaction.created_at)}</p>
                     </div>
-                    <div className={`flex items-center ${transaction.transaction_type === 'earned' ? 'text-green-500' : 'text-red-500'}`}>
-                      <span className="font-medium">{transaction.transaction_type === 'earned' ? '+' : '-'}{transaction.amount}</span>
+                    <div className={`flex items-center ${transaction.transaction_type === 'spent' ? 'text-red-500' : 'text-green-500'}`}>
+                      <span className="font-medium">{transaction.transaction_type === 'spent' ? '-' : '+'}{transaction.amount}</span>
                       <Coins className="ml-1 h-4 w-4" />
                     </div>
                   </div>
@@ -426,57 +499,99 @@ const Rewards = () => {
           </div>
         ) : rewards.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {rewards.map((reward) => (
-              <Card key={reward.id} className="overflow-hidden bg-white dark:bg-gray-800 border dark:border-gray-700">
-                <CardHeader className="pb-3">
-                  <div className="w-full h-48 rounded-md overflow-hidden mb-4 bg-gray-100 dark:bg-gray-700">
-                    <img 
-                      src={getRewardImage(reward)} 
-                      alt={reward.title}
-                      className="w-full h-full object-cover transition-transform hover:scale-105"
-                      onError={(e) => {
-                        const target = e.target as HTMLImageElement;
-                        target.src = getRewardImage(reward);
-                      }}
-                    />
-                  </div>
-                  <CardTitle className="text-lg text-gray-900 dark:text-white">
-                    {reward.title === '$10 Gift Card' ? 'Amazon Gift Card' : reward.title}
-                  </CardTitle>
-                  <CardDescription className="text-sm text-gray-600 dark:text-gray-300">{reward.description}</CardDescription>
-                </CardHeader>
+            {rewards.map((reward) => {
+              const unavailableReason = rewardUnavailableReason(reward);
+              const canRedeem = !unavailableReason && !!userTokens && userTokens.balance >= reward.token_cost;
+              const waitlistEntry = waitlist[reward.id];
+              
+              return (
+                <Card key={reward.id} className="overflow-hidden bg-white dark:bg-gray-800 border dark:border-gray-700">
+                  <CardHeader className="pb-3">
+                    <div className="w-full h-48 rounded-md overflow-hidden mb-4 bg-gray-100 dark:bg-gray-700">
+                      <img 
+                        src={reward.image_url || DEFAULT_REWARD_IMAGE} 
+                        alt={reward.title}
+                        className="w-full h-full object-cover transition-transform hover:scale-105"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement;
+                          target.src = DEFAULT_REWARD_IMAGE;
+                        }}
+                      />
+                    </div>
+                    <CardTitle className="text-lg text-gray-900 dark:text-white">
+                      {reward.title}
+                      {waitlistEntry?.restocked_at && reward.stock_quantity !== 0 && (
+                        <Badge className="ml-2 bg-green-100 text-green-800 hover:bg-green-100">Back in stock</Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription className="text-sm text-gray-600 dark:text-gray-300">{reward.description}</CardDescription>
+                  </CardHeader>
                 
-                <CardContent>
-                  <div className="flex items-center">
-                    <Coins className="h-5 w-5 text-yellow-500 mr-2" />
-                    <span className="font-bold text-lg text-gray-900 dark:text-white">{reward.token_cost} tokens</span>
-                  </div>
-                </CardContent>
+                  <CardContent>
+                    <div className="flex items-center">
+                      <Coins className="h-5 w-5 text-yellow-500 mr-2" />
+                      <span className="font-bold text-lg text-gray-900 dark:text-white">{reward.token_cost} tokens</span>
+                    </div>
+                    {isLowStock(reward) && (
+                      <p className="text-sm font-medium text-amber-600 mt-2">Only {reward.stock_quantity} left</p>
+                    )}
+                    {(reward.per_user_limit || reward.ends_at) && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                        {reward.per_user_limit && `Limit ${reward.per_user_limit} per person`}
+                        {reward.per_user_limit && reward.ends_at && " · "}
+                        {reward.ends_at && `Offered until ${new Date(reward.ends_at).toLocaleDateString()}`}
+                      </p>
+                    )}
+                  </CardContent>
                 
-                <CardFooter>
-                  <Button 
-                    className={`w-full ${userTokens && userTokens.balance >= reward.token_cost ? 'bg-eco hover:bg-eco-dark text-white' : 'bg-gray-300 hover:bg-gray-300 cursor-not-allowed text-gray-500 dark:bg-gray-600 dark:text-gray-400'}`}
-                    onClick={() => handleRedeemReward(reward)}
-                    disabled={!userTokens || userTokens.balance < reward.token_cost || loading.redemption}
-                  >
-                    {loading.redemption ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Processing...
-                      </>
-                    ) : (
-                      <>
-                        <Gift className="mr-2 h-4 w-4" />
-                        {userTokens && userTokens.balance >= reward.token_cost 
-                          ? 'Redeem Reward' 
-                          : `Need ${reward.token_cost - (userTokens?.balance || 0)} more`
+                  <CardFooter>
+                    {unavailableReason === "Out of stock" ? (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => handleToggleWaitlist(reward)}
+                        disabled={waitlistBusyId === reward.id}
+                      >
+                        {waitlistBusyId === reward.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : waitlistEntry && !waitlistEntry.restocked_at ? (
+                          <BellOff className="mr-2 h-4 w-4" />
+                        ) : (
+                          <Bell className="mr-2 h-4 w-4" />
+                        )}
+                        {waitlistEntry && !waitlistEntry.restocked_at
+                          ? "Out of stock · Leave waitlist"
+                          : "Out of stock · Join waitlist"
                         }
-                      </>
+                      </Button>
+                    ) : (
+                      <Button 
+                        className={`w-full ${canRedeem ? 'bg-eco hover:bg-eco-dark text-white' : 'bg-gray-300 hover:bg-gray-300 cursor-not-allowed text-gray-500 dark:bg-gray-600 dark:text-gray-400'}`}
+                        onClick={() => handleRedeemClick(reward)}
+                        disabled={!canRedeem || loading.redemption}
+                      >
+                        {loading.redemption ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Processing...
+                          </>
+                        ) : (
+                          <>
+                            <Gift className="mr-2 h-4 w-4" />
+                            {unavailableReason
+                              ? unavailableReason
+                              : canRedeem
+                              ? 'Redeem Reward' 
+                              : `Need ${reward.token_cost - (userTokens?.balance || 0)} more`
+                            }
+                          </>
+                        )}
+                      </Button>
                     )}
-                  </Button>
-                </CardFooter>
-              </Card>
-            ))}
+                  </CardFooter>
+                </Card>
+              );
+            })}
           </div>
         ) : (
           <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700">
@@ -485,6 +600,133 @@ const Rewards = () => {
             <p className="text-gray-500 dark:text-gray-400">Check back soon for new rewards!</p>
           </div>
         )}
+        
+        {/* Delivery details, asked for when redeeming */}
+        <Dialog open={redeemingReward !== null} onOpenChange={(open) => !open && setRedeemingReward(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Redeem {redeemingReward?.title}</DialogTitle>
+              <DialogDescription>
+                {redeemingReward?.delivery_method === 'voucher'
+                  ? `${redeemingReward.token_cost} tokens. Your code is shown as soon as you confirm.`
+                  : `${redeemingReward?.token_cost} tokens. Tell us where to send it; for digital rewards, enter an email address.`}
+              </DialogDescription>
+            </DialogHeader>
+            {redeemingReward?.delivery_method !== 'voucher' && (
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label htmlFor="recipient-name">Recipient name</Label>
+                  <Input
+                    id="recipient-name"
+                    value={shipping.recipientName}
+                    onChange={(e) => setShipping(prev => ({ ...prev, recipientName: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="shipping-address">Delivery address or email</Label>
+                  <Textarea
+                    id="shipping-address"
+                    value={shipping.shippingAddress}
+                    onChange={(e) => setShipping(prev => ({ ...prev, shippingAddress: e.target.value }))}
+                    placeholder="Street, city, postal code"
+                    className="min-h-[80px] resize-none"
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="contact-phone">Phone (optional)</Label>
+                  <Input
+                    id="contact-phone"
+                    type="tel"
+                    value={shipping.contactPhone}
+                    onChange={(e) => setShipping(prev => ({ ...prev, contactPhone: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="delivery-instructions">Delivery instructions (optional)</Label>
+                  <Input
+                    id="delivery-instructions"
+                    value={shipping.deliveryInstructions}
+                    onChange={(e) => setShipping(prev => ({ ...prev, deliveryInstructions: e.target.value }))}
+                    placeholder="e.g. leave with the neighbour"
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRedeemingReward(null)} disabled={loading.redemption}>
+                Cancel
+              </Button>
+              <Button
+                className="bg-eco hover:bg-eco-dark text-white"
+                onClick={handleRedeemReward}
+                disabled={
+                  loading.redemption ||
+                  (redeemingReward?.delivery_method !== 'voucher' &&
+                    (!shipping.recipientName.trim() || !shipping.shippingAddress.trim()))
+                }
+              >
+                {loading.redemption ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Gift className="mr-2 h-4 w-4" />
+                    Confirm redemption
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Voucher code, shown once redeemed */}
+        <Dialog open={issuedVoucher !== null} onOpenChange={(open) => !open && setIssuedVoucher(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Your {issuedVoucher?.title} code</DialogTitle>
+              <DialogDescription>
+                You can find this code again under My Redemptions.
+              </DialogDescription>
+            </DialogHeader>
+            {issuedVoucher?.code ? (
+              <div className="flex items-center gap-2">
+                <code className="flex-1 rounded-md border bg-gray-50 px-3 py-2 font-mono text-lg tracking-wide break-all">
+                  {issuedVoucher.code}
+                </code>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Copy code"
+                  onClick={() => {
+                    navigator.clipboard.writeText(issuedVoucher.code ?? "");
+                    toast.success("Code copied");
+                  }}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Your code was issued but couldn't be loaded. Open My Redemptions to see it.
+              </p>
+            )}
+            <DialogFooter>
+              <Button variant="outline" asChild>
+                <Link to="/redemptions">
+                  <Ticket className="mr-2 h-4 w-4" />
+                  My Redemptions
+                </Link>
+              </Button>
+              <Button className="bg-eco hover:bg-eco-dark text-white" onClick={() => setIssuedVoucher(null)}>
+                Done
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </Layout>
   );
@@ -0,0 +1,258 @@
+import { openDB, DBSchema } from "idb";
+import { ProcessedImage, ReportImage, blobToDataUrl } from "@/utils/imageUtils";
+import { ReportSubmission, SubmittedPhoto, SubmittedReport, submitWasteReport, uploadReportImage } from "@/utils/reportUtils";
+
+// Reports that couldn't be sent are kept on the device (IndexedDB) with their
+// photos and coordinates, and retried when the connection comes back.
+
+// queued: retried automatically; failed: rejected by the server or out of
+// retries, waiting for the user to edit or delete it
+export type DraftStatus = 'queued' | 'failed';
+
+type StoredImage = Omit<ProcessedImage, 'dataUrl'>;
+
+// A photo of a draft, stored without the data URLs, which are rebuilt from the blobs
+export type DraftPhoto = {
+  image: StoredImage;
+  thumbnail: StoredImage;
+  hash: string;
+  deviceInfo: unknown;
+};
+
+// A processed photo ready to upload, with its capture details
+export type PendingPhoto = {
+  reportImage: ReportImage;
+  deviceInfo: unknown;
+};
+
+export type ReportDraft = {
+  id: string;
+  userId: string;
+  fields: Omit<ReportSubmission, 'images'>;
+  photos: DraftPhoto[];
+  status: DraftStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// How drafts were stored in version 1 of the database: a single photo, with
+// the device info on the fields
+type DraftRecordV1 = Omit<ReportDraft, 'fields' | 'photos'> & {
+  fields: ReportDraft['fields'] & { deviceInfo: unknown };
+  photo: Omit<DraftPhoto, 'deviceInfo'>;
+};
+
+const isDraftRecordV1 = (record: unknown): record is DraftRecordV1 =>
+  typeof record === 'object' && record !== null && 'photo' in record && !('photos' in record);
+
+export type DraftSubmitResult =
+  | { status: 'submitted'; report: SubmittedReport; error: null }
+  | { status: 'retry' | 'rejected'; report: null; error: string };
+
+// Fired on window whenever drafts are added, changed or removed
+export const DRAFTS_CHANGED_EVENT = 'report-drafts-changed';
+
+// Automatic retries stop after this many attempts; the user can still retry
+const MAX_AUTO_ATTEMPTS = 5;
+
+interface DraftDB extends DBSchema {
+  'report-drafts': {
+    key: string;
+    value: ReportDraft;
+    indexes: { 'by-user': string };
+  };
+}
+
+const dbPromise = typeof indexedDB === 'undefined'
+  ? null
+  : openDB<DraftDB>('waste-tracker', 2, {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
+        if (oldVersion < 1) {
+          const store = db.createObjectStore('report-drafts', { keyPath: 'id' });
+          store.createIndex('by-user', 'userId');
+        }
+
+        if (oldVersion === 1) {
+          let cursor = await transaction.objectStore('report-drafts').openCursor();
+          while (cursor) {
+            const record: unknown = cursor.value;
+            if (isDraftRecordV1(record)) {
+              const { photo, fields: { deviceInfo, ...fields }, ...rest } = record;
+              await cursor.update({ ...rest, fields, photos: [{ ...photo, deviceInfo }] });
+            }
+            cursor = await cursor.continue();
+          }
+        }
+      }
+    });
+
+const getDB = async () => {
+  if (!dbPromise) {
+    throw new Error("Drafts are not supported in this browser");
+  }
+  return dbPromise;
+};
+
+const notifyDraftsChanged = () => window.dispatchEvent(new Event(DRAFTS_CHANGED_EVENT));
+
+/**
+ * Rebuild the processed photos of a draft, e.g. to load it back into the form
+ */
+export const draftPhotos = (draft: ReportDraft): Promise<PendingPhoto[]> =>
+  Promise.all(draft.photos.map(async (photo) => ({
+    reportImage: {
+      image: { ...photo.image, dataUrl: await blobToDataUrl(photo.image.blob) },
+      thumbnail: { ...photo.thumbnail, dataUrl: await blobToDataUrl(photo.thumbnail.blob) },
+      hash: photo.hash
+    },
+    deviceInfo: photo.deviceInfo
+  })));
+
+const toStoredImage = ({ blob, width, height }: ProcessedImage): StoredImage => ({ blob, width, height });
+
+/**
+ * Save a report on this device. Pass an existing id to update that draft.
+ */
+export const saveReportDraft = async (
+  userId: string,
+  fields: ReportDraft['fields'],
+  photos: PendingPhoto[],
+  options: { id?: string; status?: DraftStatus; lastError?: string | null } = {}
+) => {
+  const db = await getDB();
+  const now = new Date().toISOString();
+  const existing = options.id ? await db.get('report-drafts', options.id) : undefined;
+
+  const draft: ReportDraft = {
+    id: existing?.id ?? crypto.randomUUID(),
+    userId,
+    fields,
+    photos: photos.map(({ reportImage, deviceInfo }) => ({
+      image: toStoredImage(reportImage.image),
+      thumbnail: toStoredImage(reportImage.thumbnail),
+      hash: reportImage.hash,
+      deviceInfo
+    })),
+    status: options.status ?? 'queued',
+    attempts: existing?.attempts ?? 0,
+    lastError: options.lastError ?? null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  await db.put('report-drafts', draft);
+  notifyDraftsChanged();
+  return draft;
+};
+
+/**
+ * Get a user's drafts, newest first
+ */
+export const listReportDrafts = async (userId: string) => {
+  try {
+    const db = await getDB();
+    const drafts = await db.getAllFromIndex('report-drafts', 'by-user', userId);
+    return drafts.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (err) {
+    console.error("Error listing drafts:", err);
+    return [];
+  }
+};
+
+export const deleteReportDraft = async (id: string) => {
+  const db = await getDB();
+  await db.delete('report-drafts', id);
+  notifyDraftsChanged();
+};
+
+/**
+ * Upload a report's photos and submit it. 'retry' means the network or the
+ * server failed and the same request can be sent again later.
+ */
+export const submitReport = async (
+  userId: string,
+  fields: ReportDraft['fields'],
+  photos: PendingPhoto[]
+): Promise<DraftSubmitResult> => {
+  if (!navigator.onLine) {
+    return { status: 'retry', report: null, error: "You're offline" };
+  }
+
+  // Paths depend only on the content, so re-uploading after a failure is safe
+  const images: SubmittedPhoto[] = [];
+  for (const { reportImage, deviceInfo } of photos) {
+    const { imageUrl, thumbnailUrl, error: uploadError } = await uploadReportImage(userId, reportImage);
+    if (uploadError || !imageUrl) {
+      return { status: 'retry', report: null, error: uploadError || "Error uploading image" };
+    }
+    images.push({ imageUrl, thumbnailUrl, deviceInfo });
+  }
+
+  const { report, error, retryable } = await submitWasteReport({ ...fields, images });
+  if (error || !report) {
+    return { status: retryable ? 'retry' : 'rejected', report: null, error: error || "Report could not be submitted" };
+  }
+
+  return { status: 'submitted', report, error: null };
+};
+
+/**
+ * Submit one draft. It is deleted once the report is created; otherwise the
+ * attempt and its error are recorded on the draft.
+ */
+export const submitReportDraft = async (draft: ReportDraft): Promise<DraftSubmitResult> => {
+  const result = await submitReport(draft.userId, draft.fields, await draftPhotos(draft));
+
+  if (result.status === 'submitted') {
+    await deleteReportDraft(draft.id);
+    return result;
+  }
+
+  const attempts = draft.attempts + 1;
+  const db = await getDB();
+  await db.put('report-drafts', {
+    ...draft,
+    attempts,
+    status: result.status === 'rejected' || attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'queued',
+    lastError: result.error,
+    updatedAt: new Date().toISOString()
+  });
+  notifyDraftsChanged();
+
+  return result;
+};
+
+let syncing = false;
+
+/**
+ * Retry a user's queued drafts, one at a time. Returns the reports created.
+ */
+export const syncReportDrafts = async (userId: string) => {
+  const submitted: SubmittedReport[] = [];
+
+  if (syncing || !navigator.onLine) {
+    return submitted;
+  }
+
+  syncing = true;
+  try {
+    const drafts = await listReportDrafts(userId);
+    for (const draft of drafts.filter(d => d.status === 'queued').reverse()) {
+      const result = await submitReportDraft(draft);
+      if (result.status === 'submitted') {
+        submitted.push(result.report);
+      } else if (result.status === 'retry') {
+        // Still offline or the server is down: leave the rest for next time
+        break;
+      }
+    }
+  } catch (err) {
+    console.error("Error syncing drafts:", err);
+  } finally {
+    syncing = false;
+  }
+
+  return submitted;
+};
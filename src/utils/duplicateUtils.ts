@@ -0,0 +1,103 @@
+import { supabase } from "@/lib/supabase";
+
+// A possible duplicate as shown to a reporter before they submit
+export type DuplicateWarning = {
+  id: string;
+  title: string;
+  status: string;
+  created_at: string;
+  samePhoto: boolean;
+  distanceMeters: number | null;
+};
+
+type DuplicateCandidate = {
+  id: string;
+  status: string;
+  created_at: string;
+  suspected_duplicate_of?: string | null;
+};
+
+export type DuplicateGroup<T extends DuplicateCandidate> = {
+  original: T;
+  duplicates: T[];
+};
+
+/**
+ * Find earlier reports that look like the same photo or were reported nearby
+ */
+export const checkForDuplicateReports = async (
+  base64Image: string,
+  geoLocation: { latitude: number; longitude: number } | null
+): Promise<DuplicateWarning[]> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('check-duplicate-reports', {
+      body: { base64Image, geoLocation },
+    });
+
+    if (error) {
+      console.error("Error checking for duplicates:", error);
+      return [];
+    }
+
+    return data?.duplicates || [];
+  } catch (err) {
+    console.error("Exception checking for duplicates:", err);
+    return [];
+  }
+};
+
+/**
+ * Group flagged reports under the report they were flagged against
+ */
+export const groupSuspectedDuplicates = <T extends DuplicateCandidate>(reports: T[]): DuplicateGroup<T>[] => {
+  const byId = new Map(reports.map(report => [report.id, report]));
+  const groups = new Map<string, DuplicateGroup<T>>();
+
+  for (const report of reports) {
+    if (!report.suspected_duplicate_of || ['rejected', 'merged'].includes(report.status)) continue;
+
+    const original = byId.get(report.suspected_duplicate_of);
+    if (!original) continue;
+
+    if (!groups.has(original.id)) {
+      groups.set(original.id, { original, duplicates: [] });
+    }
+    groups.get(original.id)!.duplicates.push(report);
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) => new Date(b.original.created_at).getTime() - new Date(a.original.created_at).getTime()
+  );
+};
+
+/**
+ * Merge duplicates into a canonical report. Merged reports are rejected and
+ * any tokens they earned are taken back.
+ */
+export const mergeWasteReports = async (canonicalId: string, duplicateIds: string[]) => {
+  const { data, error } = await supabase.rpc('merge_waste_reports', {
+    p_canonical_id: canonicalId,
+    p_duplicate_ids: duplicateIds
+  });
+
+  if (error) {
+    console.error("Error merging reports:", error);
+    return { merged: 0, error: error.message };
+  }
+
+  return { merged: data as number, error: null };
+};
+
+/**
+ * Clear a duplicate flag for a report that is not actually a duplicate
+ */
+export const dismissDuplicateFlag = async (reportId: string) => {
+  const { error } = await supabase.rpc('dismiss_duplicate_flag', { p_report_id: reportId });
+
+  if (error) {
+    console.error("Error dismissing duplicate flag:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
@@ -0,0 +1,121 @@
+import { supabase } from "@/lib/supabase";
+
+export type ParticipationStatus = 'registered' | 'waitlisted';
+
+export type EventParticipant = {
+  id: string;
+  user_id: string;
+  status: ParticipationStatus;
+  created_at: string;
+  name: string;
+};
+
+/**
+ * Sign the current user up for a collection event.
+ * The database decides whether they get a seat or go on the waitlist.
+ */
+export const joinCollectionEvent = async (eventId: string) => {
+  const { data, error } = await supabase.rpc('join_collection_event', {
+    p_event_id: eventId
+  });
+
+  if (error) {
+    console.error("Error joining event:", error);
+    return { status: null, error: error.message };
+  }
+
+  return { status: data as ParticipationStatus, error: null };
+};
+
+/**
+ * Remove the current user from an event (or its waitlist).
+ * The next person on the waitlist is promoted automatically.
+ */
+export const leaveCollectionEvent = async (eventId: string) => {
+  const { error } = await supabase.rpc('leave_collection_event', {
+    p_event_id: eventId
+  });
+
+  if (error) {
+    console.error("Error leaving event:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+/**
+ * Get the user's sign-up status for every event they joined, keyed by event id
+ */
+export const fetchUserEventParticipation = async (userId: string) => {
+  const participation: Record<string, ParticipationStatus> = {};
+
+  try {
+    const { data, error } = await supabase
+      .from('event_participants')
+      .select('event_id, status')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Error fetching event participation:", error);
+      return participation;
+    }
+
+    for (const row of data || []) {
+      participation[row.event_id] = row.status as ParticipationStatus;
+    }
+  } catch (err) {
+    console.error("Exception fetching event participation:", err);
+  }
+
+  return participation;
+};
+
+/**
+ * Get the roster for an event (admins only), registered users first, in sign-up order
+ */
+export const fetchEventRoster = async (eventId: string): Promise<EventParticipant[]> => {
+  try {
+    const { data: participants, error } = await supabase
+      .from('event_participants')
+      .select('id, user_id, status, created_at')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching event roster:", error);
+      return [];
+    }
+
+    if (!participants || participants.length === 0) {
+      return [];
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('user_profiles')
+      .select('id, full_name, username')
+      .in('id', participants.map(p => p.user_id));
+
+    if (profilesError) {
+      console.error("Error fetching participant profiles:", profilesError);
+    }
+
+    const roster = participants.map(participant => {
+      const profile = profiles?.find(p => p.id === participant.user_id);
+      return {
+        ...participant,
+        status: participant.status as ParticipationStatus,
+        name: profile?.full_name?.trim() || profile?.username || "Anonymous User"
+      };
+    });
+
+    // Registered participants first, waitlist after, each in sign-up order
+    return [
+      ...roster.filter(p => p.status === 'registered'),
+      ...roster.filter(p => p.status === 'waitlisted')
+    ];
+  } catch (err) {
+    console.error("Exception fetching event roster:", err);
+    return [];
+  }
+};
@@ -0,0 +1,62 @@
+import exifr from "exifr";
+
+// EXIF fields sent with a photo for authenticity checks
+export type PhotoExif = {
+  // When the camera took the photo, ISO 8601
+  capturedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  make: string | null;
+  model: string | null;
+  software: string | null;
+  // Set when the software tags name a known photo editor
+  editedWith: string | null;
+};
+
+// Editors whose name in the Software/CreatorTool tags means the photo was reworked.
+// Phones also write this tag (e.g. "iOS 17.4"), so only known editors count.
+const PHOTO_EDITORS = /photoshop|lightroom|gimp|snapseed|picsart|canva|pixelmator|affinity|facetune|paint\.net|luminar/i;
+
+const toIsoString = (value: unknown) =>
+  value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString() : null;
+
+const toText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/**
+ * Read the EXIF tags we check from a photo. Returns null when the file has no
+ * readable metadata (screenshots, downloads and most messaging apps strip it).
+ */
+export const readPhotoExif = async (file: File): Promise<PhotoExif | null> => {
+  try {
+    const tags = await exifr.parse(file, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      xmp: true,
+      icc: false,
+      iptc: false
+    });
+
+    if (!tags) {
+      return null;
+    }
+
+    const software = toText(tags.Software);
+    const creatorTool = toText(tags.CreatorTool);
+    const editor = [software, creatorTool].find(tool => tool && PHOTO_EDITORS.test(tool)) ?? null;
+
+    return {
+      capturedAt: toIsoString(tags.DateTimeOriginal) ?? toIsoString(tags.CreateDate),
+      latitude: typeof tags.latitude === "number" ? tags.latitude : null,
+      longitude: typeof tags.longitude === "number" ? tags.longitude : null,
+      make: toText(tags.Make),
+      model: toText(tags.Model),
+      software,
+      editedWith: editor
+    };
+  } catch (err) {
+    console.error("Error reading photo EXIF:", err);
+    return null;
+  }
+};
@@ -0,0 +1,29 @@
+import { supabase } from "@/lib/supabase";
+
+export type GeocodeResult = {
+  address: string;
+  // Provider that resolved the address
+  source: string;
+};
+
+/**
+ * Look up an address for coordinates through the reverse-geocode function.
+ * Returns null when no address is available; callers keep the coordinates.
+ */
+export const reverseGeocode = async (latitude: number, longitude: number): Promise<GeocodeResult | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('reverse-geocode', {
+      body: { latitude, longitude },
+    });
+
+    if (error) {
+      console.error("Error reverse geocoding:", error);
+      return null;
+    }
+
+    return data?.address ? { address: data.address, source: data.source } : null;
+  } catch (err) {
+    console.error("Exception reverse geocoding:", err);
+    return null;
+  }
+};
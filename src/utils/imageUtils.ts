@@ -0,0 +1,155 @@
+// Photos are downscaled and re-encoded on the device before they are verified
+// or uploaded, so a 12 MP phone photo costs a few hundred KB instead of several MB.
+
+export type ProcessedImage = {
+  blob: Blob;
+  // Data URL of the same bytes, for previews and the verification call
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+export type ReportImage = {
+  image: ProcessedImage;
+  thumbnail: ProcessedImage;
+  // SHA-256 of the processed image, used for its storage path
+  hash: string;
+};
+
+const IMAGE_MAX_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.82;
+const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 0.7;
+// Reward pictures are shown on catalog cards
+const REWARD_IMAGE_MAX_DIMENSION = 800;
+const REWARD_IMAGE_QUALITY = 0.9;
+
+// Formats reward pictures are stored in, by MIME type, with their extension
+const REWARD_IMAGE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/jpeg": "jpg"
+};
+
+export type RewardImage = {
+  blob: Blob;
+  contentType: string;
+  extension: string;
+  // SHA-256 of the stored bytes, used for its storage path
+  hash: string;
+};
+
+// Decode with the EXIF orientation applied, so portrait photos stay upright
+// once the metadata is stripped by re-encoding
+const decodeImage = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // Fall back to an <img>, which browsers also render with EXIF orientation
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const encodeImage = async (
+  source: ImageBitmap | HTMLImageElement,
+  maxDimension: number,
+  quality: number,
+  mimeType = "image/jpeg"
+): Promise<ProcessedImage> => {
+  const sourceWidth = source.width;
+  const sourceHeight = source.height;
+  const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not supported in this browser");
+  }
+  context.drawImage(source, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality));
+  if (!blob) {
+    throw new Error("Could not encode the image");
+  }
+
+  return { blob, dataUrl: await blobToDataUrl(blob), width, height };
+};
+
+const sha256Hex = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Downscale a photo for a waste report and make its thumbnail. Both are JPEG.
+ */
+export const prepareReportImage = async (file: File): Promise<ReportImage> => {
+  const source = await decodeImage(file);
+
+  try {
+    const image = await encodeImage(source, IMAGE_MAX_DIMENSION, IMAGE_QUALITY);
+    const thumbnail = await encodeImage(source, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY);
+    return { image, thumbnail, hash: await sha256Hex(image.blob) };
+  } finally {
+    if ("close" in source) {
+      source.close();
+    }
+  }
+};
+
+/**
+ * Downscale a reward picture for the catalog, keeping its format so PNG and
+ * WebP transparency survive. SVGs are kept as they are; other formats become PNG.
+ */
+export const prepareRewardImage = async (file: File): Promise<RewardImage> => {
+  if (file.type === "image/svg+xml") {
+    return { blob: file, contentType: file.type, extension: "svg", hash: await sha256Hex(file) };
+  }
+
+  const source = await decodeImage(file);
+
+  try {
+    const requested = file.type in REWARD_IMAGE_TYPES ? file.type : "image/png";
+    const { blob } = await encodeImage(source, REWARD_IMAGE_MAX_DIMENSION, REWARD_IMAGE_QUALITY, requested);
+    // Browsers that can't write the format fall back to PNG
+    const contentType = blob.type in REWARD_IMAGE_TYPES ? blob.type : "image/png";
+    return { blob, contentType, extension: REWARD_IMAGE_TYPES[contentType], hash: await sha256Hex(blob) };
+  } finally {
+    if ("close" in source) {
+      source.close();
+    }
+  }
+};
+
+/**
+ * Storage paths for a report photo. They depend only on the user and the
+ * image content, so uploading the same photo again overwrites the same files.
+ */
+export const reportImagePaths = (userId: string, hash: string) => ({
+  image: `${userId}/reports/${hash}.jpg`,
+  thumbnail: `${userId}/reports/${hash}_thumb.jpg`
+});
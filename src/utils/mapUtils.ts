@@ -0,0 +1,119 @@
+import { supabase } from "@/lib/supabase";
+
+export type MapReport = {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string;
+  waste_size: string;
+  waste_categories: string[];
+  hazardous: boolean;
+  image_url: string | null;
+  status: string;
+  created_at: string;
+  latitude: number;
+  longitude: number;
+};
+
+export type MapEvent = {
+  id: string;
+  title: string;
+  location: string;
+  date: string;
+  time_range: string | null;
+  participants: number | null;
+  capacity: number | null;
+  status: string;
+  latitude: number;
+  longitude: number;
+};
+
+// Which markers to show: open reports, claimed reports, or active events
+export type MapStatusFilter = 'all' | 'reported' | 'claimed' | 'events';
+
+// How far back to look, in days (null for any time)
+export type MapDateFilter = 7 | 30 | 90 | null;
+
+// Marker fill by waste size
+export const WASTE_SIZE_COLORS: Record<string, string> = {
+  small: "#22c55e",
+  medium: "#f59e0b",
+  large: "#ef4444"
+};
+
+export const EVENT_MARKER_COLOR = "#3b82f6";
+
+// Hazardous reports stand out whatever their size
+export const HAZARDOUS_MARKER_COLOR = "#7c3aed";
+
+const sinceDate = (days: MapDateFilter) =>
+  days === null ? null : new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+/**
+ * Get open and claimed reports that have coordinates
+ */
+export const fetchMapReports = async (status: MapStatusFilter, days: MapDateFilter): Promise<MapReport[]> => {
+  if (status === 'events') return [];
+
+  try {
+    let query = supabase
+      .from('waste_reports')
+      .select('id, title, description, location, waste_size, waste_categories, hazardous, image_url, status, created_at, latitude, longitude')
+      .in('status', status === 'all' ? ['reported', 'claimed'] : [status])
+      .not('latitude', 'is', null)
+      .not('longitude', 'is', null)
+      .order('created_at', { ascending: false });
+
+    const since = sinceDate(days);
+    if (since) {
+      query = query.gte('created_at', since.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching map reports:", error);
+      return [];
+    }
+
+    return (data || []) as MapReport[];
+  } catch (err) {
+    console.error("Exception fetching map reports:", err);
+    return [];
+  }
+};
+
+/**
+ * Get active collection events that have coordinates. The date filter keeps
+ * recent and upcoming events.
+ */
+export const fetchMapEvents = async (status: MapStatusFilter, days: MapDateFilter): Promise<MapEvent[]> => {
+  if (status !== 'all' && status !== 'events') return [];
+
+  try {
+    let query = supabase
+      .from('collection_events')
+      .select('id, title, location, date, time_range, participants, capacity, status, latitude, longitude')
+      .eq('status', 'active')
+      .not('latitude', 'is', null)
+      .not('longitude', 'is', null)
+      .order('date', { ascending: true });
+
+    const since = sinceDate(days);
+    if (since) {
+      query = query.gte('date', since.toISOString().slice(0, 10));
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching map events:", error);
+      return [];
+    }
+
+    return (data || []) as MapEvent[];
+  } catch (err) {
+    console.error("Exception fetching map events:", err);
+    return [];
+  }
+};
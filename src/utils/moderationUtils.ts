@@ -0,0 +1,107 @@
+import { supabase } from "@/lib/supabase";
+import { ImageVerification, saveReportVerification } from "@/utils/verificationUtils";
+
+export type ModerationDecision = 'approve' | 'reject';
+
+export type PendingReport = {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string;
+  waste_size: string;
+  waste_categories: string[];
+  hazardous: boolean;
+  image_url: string | null;
+  status: string;
+  created_at: string;
+  user_id: string;
+};
+
+/**
+ * Get reports waiting for review, oldest first
+ */
+export const fetchPendingReports = async (): Promise<PendingReport[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('waste_reports')
+      .select('id, title, description, location, waste_size, waste_categories, hazardous, image_url, status, created_at, user_id')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching pending reports:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error("Exception fetching pending reports:", err);
+    return [];
+  }
+};
+
+/**
+ * Approve or reject a report. Approval pays the reporter; rejection takes back
+ * any tokens already credited. Returns the token change applied to the reporter.
+ */
+export const moderateWasteReport = async (reportId: string, decision: ModerationDecision, reason: string) => {
+  const { data, error } = await supabase.rpc('moderate_waste_report', {
+    p_report_id: reportId,
+    p_decision: decision,
+    p_reason: reason.trim() || null
+  });
+
+  if (error) {
+    console.error("Error moderating report:", error);
+    return { tokenChange: 0, error: error.message };
+  }
+
+  return { tokenChange: data as number, error: null };
+};
+
+/**
+ * Re-run AI verification on a report's stored image and keep the result
+ * alongside the one recorded at submission
+ */
+export const rerunReportVerification = async (reportId: string, imageUrl: string) => {
+  try {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      return { stored: null, error: `Could not load image (${response.status})` };
+    }
+
+    const blob = await response.blob();
+    const base64Image = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+    const { data, error } = await supabase.functions.invoke('verify-waste-image', {
+      body: { base64Image },
+    });
+
+    if (error || !data?.verification) {
+      console.error("Error verifying stored image:", error);
+      return { stored: null, error: error?.message || "Invalid verification response" };
+    }
+
+    const stored = await saveReportVerification(
+      reportId,
+      data.verification as ImageVerification,
+      data.model || "unknown",
+      data.rawResponse ?? null,
+      'rerun'
+    );
+
+    if (!stored) {
+      return { stored: null, error: "Could not save the verification result" };
+    }
+
+    return { stored, error: null };
+  } catch (err) {
+    console.error("Exception verifying stored image:", err);
+    return { stored: null, error: "Please try again later" };
+  }
+};
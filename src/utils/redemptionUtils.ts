@@ -0,0 +1,224 @@
+import { supabase } from "@/lib/supabase";
+
+// Redemption lifecycle: pending -> approved -> shipped -> delivered. A pending
+// redemption can be rejected and an approved one cancelled, which refunds the
+// tokens. Transitions are enforced by update_redemption_status.
+export const REDEMPTION_STATUSES = ['pending', 'approved', 'shipped', 'delivered', 'rejected', 'cancelled'];
+
+// Statuses an admin can move a redemption to from each status
+export const NEXT_REDEMPTION_STATUSES: Record<string, string[]> = {
+  pending: ['approved', 'rejected'],
+  approved: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  rejected: [],
+  cancelled: []
+};
+
+// Statuses that give the tokens back and need a note
+export const REFUNDED_REDEMPTION_STATUSES = ['rejected', 'cancelled'];
+
+export const formatRedemptionStatus = (status: string) => status.charAt(0).toUpperCase() + status.slice(1);
+
+export type ShippingDetails = {
+  recipientName: string;
+  // Postal address, or an email address for digital rewards
+  shippingAddress: string;
+  contactPhone: string;
+  deliveryInstructions: string;
+};
+
+export type Redemption = {
+  id: string;
+  user_id: string;
+  status: string;
+  created_at: string;
+  updated_at: string | null;
+  recipient_name: string | null;
+  shipping_address: string | null;
+  contact_phone: string | null;
+  delivery_instructions: string | null;
+  tracking_reference: string | null;
+  reward: { title: string; token_cost: number } | null;
+  // Set for voucher rewards
+  voucher_code: string | null;
+};
+
+export type RedemptionEvent = {
+  id: string;
+  redemption_id: string;
+  status: string;
+  note: string | null;
+  created_at: string;
+};
+
+const REDEMPTION_COLUMNS = 'id, user_id, status, created_at, updated_at, recipient_name, shipping_address, contact_phone, delivery_instructions, tracking_reference, reward:rewards(title, token_cost), voucher:reward_vouchers(code)';
+
+// The untyped client reads embedded rows as lists; a redemption has at most
+// one reward and one voucher
+const firstEmbedded = <T>(value: unknown) => ((Array.isArray(value) ? value[0] : value) ?? null) as T | null;
+
+const toRedemption = ({
+  reward,
+  voucher,
+  ...row
+}: Omit<Redemption, 'reward' | 'voucher_code'> & { reward: unknown; voucher: unknown }): Redemption => ({
+  ...row,
+  reward: firstEmbedded<NonNullable<Redemption['reward']>>(reward),
+  voucher_code: firstEmbedded<{ code: string }>(voucher)?.code ?? null
+});
+
+/**
+ * Get the current user's redemptions, newest first
+ */
+export const fetchMyRedemptions = async (userId: string): Promise<Redemption[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('redeemed_rewards')
+      .select(REDEMPTION_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching redemptions:", error);
+      return [];
+    }
+
+    return (data || []).map(toRedemption);
+  } catch (err) {
+    console.error("Exception fetching redemptions:", err);
+    return [];
+  }
+};
+
+/**
+ * Get redemptions in the given statuses for fulfillment, oldest first
+ */
+export const fetchRedemptions = async (statuses: string[]): Promise<Redemption[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('redeemed_rewards')
+      .select(REDEMPTION_COLUMNS)
+      .in('status', statuses)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching redemptions:", error);
+      return [];
+    }
+
+    return (data || []).map(toRedemption);
+  } catch (err) {
+    console.error("Exception fetching redemptions:", err);
+    return [];
+  }
+};
+
+/**
+ * Get the status history of the given redemptions, oldest first, keyed by redemption id
+ */
+export const fetchRedemptionEvents = async (redemptionIds: string[]) => {
+  const events: Record<string, RedemptionEvent[]> = {};
+  if (redemptionIds.length === 0) return events;
+
+  try {
+    const { data, error } = await supabase
+      .from('redemption_status_events')
+      .select('id, redemption_id, status, note, created_at')
+      .in('redemption_id', redemptionIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching redemption history:", error);
+      return events;
+    }
+
+    for (const row of data || []) {
+      (events[row.redemption_id] ||= []).push(row as RedemptionEvent);
+    }
+    return events;
+  } catch (err) {
+    console.error("Exception fetching redemption history:", err);
+    return events;
+  }
+};
+
+/**
+ * Get the tokens refunded for redemptions, keyed by redemption id. Only
+ * redemptions with a refund in the ledger are included: ones rejected or
+ * cancelled before refunds existed, or never charged, have none.
+ */
+export const fetchRedemptionRefunds = async (redemptionIds: string[]) => {
+  const refunds: Record<string, number> = {};
+  if (redemptionIds.length === 0) return refunds;
+
+  try {
+    const { data, error } = await supabase
+      .from('token_transactions')
+      .select('source_id, amount')
+      .eq('transaction_type', 'refund')
+      .eq('source_type', 'reward_redemption')
+      .in('source_id', redemptionIds);
+
+    if (error) {
+      console.error("Error fetching redemption refunds:", error);
+      return refunds;
+    }
+
+    for (const row of data || []) {
+      refunds[row.source_id] = (refunds[row.source_id] || 0) + row.amount;
+    }
+    return refunds;
+  } catch (err) {
+    console.error("Exception fetching redemption refunds:", err);
+    return refunds;
+  }
+};
+
+/**
+ * Move a redemption to its next status (admins only). Rejecting or cancelling
+ * needs a note and refunds the tokens; returns how many were refunded.
+ */
+export const updateRedemptionStatus = async (
+  redemptionId: string,
+  status: string,
+  note: string,
+  trackingReference?: string
+) => {
+  const { data, error } = await supabase.rpc('update_redemption_status', {
+    p_redemption_id: redemptionId,
+    p_status: status,
+    p_note: note.trim() || null,
+    p_tracking_reference: trackingReference?.trim() || null
+  });
+
+  if (error) {
+    console.error("Error updating redemption:", error);
+    return { refunded: 0, error: error.message };
+  }
+
+  return { refunded: (data as number) || 0, error: null };
+};
+
+/**
+ * Get the code issued for a voucher redemption, if any
+ */
+export const fetchRedemptionVoucherCode = async (redemptionId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('reward_vouchers')
+      .select('code')
+      .eq('redemption_id', redemptionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching voucher code:", error);
+      return null;
+    }
+
+    return data?.code ?? null;
+  } catch (err) {
+    console.error("Exception fetching voucher code:", err);
+    return null;
+  }
+};
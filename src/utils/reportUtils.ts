@@ -0,0 +1,344 @@
+import { FunctionsFetchError } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { ReportImage, reportImagePaths } from "@/utils/imageUtils";
+
+// Report lifecycle: pending -> reported -> claimed -> collected (or pending -> rejected).
+// Admins can move approved reports between these; pending and rejected are
+// handled in the moderation queue.
+export const REPORT_STATUSES = ['reported', 'claimed', 'collected'];
+
+// Reports that count as accepted contributions (leaderboard, stats)
+export const ACCEPTED_REPORT_STATUSES = ['reported', 'claimed', 'collected'];
+
+// How long a collector holds a report before it goes back into the pool
+export const CLAIM_DURATION_HOURS = 4;
+
+// Photos a report can have; checked again by submit-waste-report
+export const MAX_REPORT_IMAGES = 5;
+
+// Search radius for "near me" collection, and when widening the search
+export const NEARBY_RADIUS_KM = 10;
+export const EXPANDED_RADIUS_KM = 50;
+
+const WASTE_SIZE_ORDER = ['small', 'medium', 'large'];
+
+/**
+ * Report-level size from the sizes of its photos: the size most photos agree
+ * on, ties going to the larger one. Matches the server's aggregation.
+ */
+export const aggregateWasteSize = (sizes: (string | null | undefined)[]) => {
+  let best: string | null = null;
+  let bestCount = 0;
+
+  for (const size of WASTE_SIZE_ORDER) {
+    const count = sizes.filter(s => s === size).length;
+    if (count > 0 && count >= bestCount) {
+      best = size;
+      bestCount = count;
+    }
+  }
+
+  return best;
+};
+
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type CollectableReport = {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string;
+  waste_size: string;
+  waste_categories: string[];
+  // Listed with a warning instead of being claimable
+  hazardous: boolean;
+  image_url: string | null;
+  thumbnail_url: string | null;
+  status: string;
+  created_at: string;
+  user_id: string;
+  claimed_by: string | null;
+  claim_expires_at: string | null;
+  // Set when the reports were searched by distance
+  distance_km?: number;
+};
+
+/**
+ * Get reports within radiusKm of a point, nearest first
+ */
+export const fetchReportsNearby = async (
+  point: GeoPoint,
+  radiusKm: number,
+  statuses: string[] = ['reported', 'claimed']
+): Promise<CollectableReport[]> => {
+  try {
+    const { data, error } = await supabase.rpc('waste_reports_within_radius', {
+      p_latitude: point.latitude,
+      p_longitude: point.longitude,
+      p_radius_km: radiusKm,
+      p_statuses: statuses
+    });
+
+    if (error) {
+      console.error("Error fetching nearby reports:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error("Exception fetching nearby reports:", err);
+    return [];
+  }
+};
+
+/**
+ * Get reports a collector can act on: open reports plus the ones they have claimed.
+ * With a point, reports within radiusKm are returned nearest first; otherwise,
+ * when an area is given, only reports whose location mentions it are returned.
+ */
+export const fetchCollectableReports = async (
+  userId: string,
+  area?: string | null,
+  near?: { point: GeoPoint; radiusKm: number } | null
+): Promise<CollectableReport[]> => {
+  try {
+    // Expired claims go back into the pool before we list it
+    const { error: releaseError } = await supabase.rpc('release_expired_report_claims');
+    if (releaseError) {
+      console.error("Error releasing expired claims:", releaseError);
+    }
+
+    if (near) {
+      const nearby = await fetchReportsNearby(near.point, near.radiusKm);
+      return nearby.filter(report => report.status === 'reported' || report.claimed_by === userId);
+    }
+
+    let query = supabase
+      .from('waste_reports')
+      .select('id, title, description, location, waste_size, waste_categories, hazardous, image_url, thumbnail_url, status, created_at, user_id, claimed_by, claim_expires_at')
+      .in('status', ['reported', 'claimed'])
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (area?.trim()) {
+      query = query.ilike('location', `%${area.trim()}%`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching collectable reports:", error);
+      return [];
+    }
+
+    // Reports claimed by someone else are locked until their claim expires
+    return (data || []).filter(report => report.status === 'reported' || report.claimed_by === userId);
+  } catch (err) {
+    console.error("Exception fetching collectable reports:", err);
+    return [];
+  }
+};
+
+/**
+ * Claim a report for collection. Returns the time the claim expires.
+ */
+export const claimWasteReport = async (reportId: string) => {
+  const { data, error } = await supabase.rpc('claim_waste_report', {
+    p_report_id: reportId,
+    p_hours: CLAIM_DURATION_HOURS
+  });
+
+  if (error) {
+    console.error("Error claiming report:", error);
+    return { expiresAt: null, error: error.message };
+  }
+
+  return { expiresAt: data as string, error: null };
+};
+
+/**
+ * Give up a claim so another collector can take the report
+ */
+export const releaseWasteReportClaim = async (reportId: string) => {
+  const { error } = await supabase.rpc('release_waste_report_claim', {
+    p_report_id: reportId
+  });
+
+  if (error) {
+    console.error("Error releasing claim:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+/**
+ * Upload the "after" photo and hand the cleanup to the complete-waste-collection
+ * function, which compares it with the report's photo, marks the report as
+ * collected and pays the collector.
+ */
+export const completeWasteReportCollection = async (report: CollectableReport, afterImage: File) => {
+  try {
+    const fileExt = afterImage.name.split('.').pop();
+    const filePath = `collections/${report.id}/${Date.now()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('waste-images')
+      .upload(filePath, afterImage);
+
+    if (uploadError) {
+      console.error("Upload error:", uploadError);
+      return { error: `Error uploading image: ${uploadError.message}`, tokensAwarded: 0 };
+    }
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('waste-images')
+      .getPublicUrl(filePath);
+
+    const { data, error } = await supabase.functions.invoke('complete-waste-collection', {
+      body: { reportId: report.id, afterImageUrl: publicUrl },
+    });
+
+    if (error) {
+      console.error("Error completing collection:", error);
+
+      // Non-2xx responses carry the reason in the body
+      let message = "We couldn't verify your photo. Please try again.";
+      try {
+        const body = await error.context?.json();
+        message = body?.error || message;
+      } catch {
+        // Keep the generic message
+      }
+
+      return { error: message, tokensAwarded: 0 };
+    }
+
+    return { error: null, tokensAwarded: (data?.tokensAwarded as number) || 0 };
+  } catch (err) {
+    console.error("Exception completing collection:", err);
+    return { error: "Please try again later", tokensAwarded: 0 };
+  }
+};
+
+export type SubmittedPhoto = {
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  // Capture source and EXIF of this photo
+  deviceInfo: unknown;
+};
+
+export type ReportSubmission = {
+  title: string;
+  description: string;
+  location: string;
+  // In display order; the first is the cover
+  images: SubmittedPhoto[];
+  // Waste categories the reporter confirmed; null to use the detected ones
+  categories: string[] | null;
+  geoLocation: { latitude: number; longitude: number; accuracy?: number; address?: string; source?: string } | null;
+};
+
+// The report row submit-waste-report returns
+export type SubmittedReport = {
+  id: string;
+  waste_size: string;
+  waste_categories: string[];
+  hazardous: boolean;
+  status: string;
+};
+
+export type ReportPhotoRow = {
+  id: string;
+  position: number;
+  image_url: string;
+  thumbnail_url: string | null;
+  waste_size: string | null;
+};
+
+/**
+ * Get the photos of a report in display order
+ */
+export const fetchReportImages = async (reportId: string): Promise<ReportPhotoRow[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('waste_report_images')
+      .select('id, position, image_url, thumbnail_url, waste_size')
+      .eq('report_id', reportId)
+      .order('position');
+
+    if (error) {
+      console.error("Error fetching report images:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error("Exception fetching report images:", err);
+    return [];
+  }
+};
+
+/**
+ * Upload a processed report photo and its thumbnail to the user's folder
+ */
+export const uploadReportImage = async (userId: string, reportImage: ReportImage) => {
+  const paths = reportImagePaths(userId, reportImage.hash);
+  const bucket = supabase.storage.from('waste-images');
+
+  // Same content, same path: a retried upload replaces the earlier copy
+  const uploadOptions = { contentType: 'image/jpeg', upsert: true };
+
+  const { error: imageError } = await bucket.upload(paths.image, reportImage.image.blob, uploadOptions);
+  if (imageError) {
+    console.error("Upload error:", imageError);
+    return { imageUrl: null, thumbnailUrl: null, error: `Error uploading image: ${imageError.message}` };
+  }
+
+  // The report still works without a thumbnail; lists fall back to the full image
+  const { error: thumbnailError } = await bucket.upload(paths.thumbnail, reportImage.thumbnail.blob, uploadOptions);
+  if (thumbnailError) {
+    console.error("Thumbnail upload error:", thumbnailError);
+  }
+
+  return {
+    imageUrl: bucket.getPublicUrl(paths.image).data.publicUrl,
+    thumbnailUrl: thumbnailError ? null : bucket.getPublicUrl(paths.thumbnail).data.publicUrl,
+    error: null
+  };
+};
+
+/**
+ * Create a report through the submit-waste-report function, which re-verifies
+ * the stored image and sets the waste size server-side.
+ */
+export const submitWasteReport = async (submission: ReportSubmission) => {
+  const { data, error } = await supabase.functions.invoke('submit-waste-report', {
+    body: submission,
+  });
+
+  if (error) {
+    console.error("Error submitting report:", error);
+
+    // The request never reached the function, or the function failed on its
+    // side (e.g. the vision API was down): worth trying again later
+    const status: number | undefined = error.context?.status;
+    const retryable = error instanceof FunctionsFetchError || (status !== undefined && status >= 500);
+
+    // Non-2xx responses carry the reason in the body
+    let message = error.message;
+    try {
+      const body = await error.context?.json();
+      message = body?.error || message;
+    } catch {
+      // Keep the generic message
+    }
+
+    return { report: null, error: message, retryable };
+  }
+
+  return { report: data.report as SubmittedReport, error: null, retryable: false };
+};
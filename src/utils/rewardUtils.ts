@@ -1,6 +1,9 @@
-
 import { supabase } from "@/lib/supabase";
+import { prepareRewardImage } from "@/utils/imageUtils";
+import { ShippingDetails } from "@/utils/redemptionUtils";
 
+// Token amounts are decided by the database (report_tokens_for_waste_size) and
+// paid when an admin approves the report; these mirror them for display only.
 export const getTokensForWasteSize = (wasteSize: string): number => {
   switch (wasteSize) {
     case 'small':
@@ -14,87 +17,328 @@ export const getTokensForWasteSize = (wasteSize: string): number => {
   }
 };
 
-export const updateUserTokensForReport = async (userId: string, wasteSize: string, reportTitle: string) => {
+// Collectors earn more than reporters: cleaning up takes real effort
+// (mirrors collection_tokens_for_waste_size)
+export const getCollectionTokensForWasteSize = (wasteSize: string): number => {
+  switch (wasteSize) {
+    case 'small':
+      return 10;
+    case 'medium':
+      return 25;
+    case 'large':
+      return 50;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Redeem a reward to be delivered to `shipping`. The balance check, redemption
+ * record and ledger entry happen in one database transaction; overdrafts are
+ * rejected there.
+ */
+export const redeemReward = async (rewardId: string, idempotencyKey: string, shipping: ShippingDetails) => {
+  const { data, error } = await supabase.rpc('redeem_reward', {
+    p_reward_id: rewardId,
+    p_idempotency_key: idempotencyKey,
+    p_recipient_name: shipping.recipientName.trim(),
+    p_shipping_address: shipping.shippingAddress.trim(),
+    p_contact_phone: shipping.contactPhone.trim() || null,
+    p_delivery_instructions: shipping.deliveryInstructions.trim() || null
+  });
+
+  if (error) {
+    console.error("Error redeeming reward:", error);
+    return { redemptionId: null, error: error.message };
+  }
+
+  return { redemptionId: data as string, error: null };
+};
+
+export type Reward = {
+  id: string;
+  title: string;
+  description: string;
+  token_cost: number;
+  image_url: string;
+  available: boolean | null;
+  // 'physical' rewards are shipped; 'voucher' rewards issue a code from their pool
+  delivery_method: 'physical' | 'voucher';
+  sort_order: number;
+  archived_at: string | null;
+  // Units left; null for unlimited
+  stock_quantity: number | null;
+  low_stock_threshold: number;
+  per_user_limit: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+};
+
+export type RewardInput = Pick<
+  Reward,
+  | 'title'
+  | 'description'
+  | 'token_cost'
+  | 'image_url'
+  | 'available'
+  | 'delivery_method'
+  | 'stock_quantity'
+  | 'low_stock_threshold'
+  | 'per_user_limit'
+  | 'starts_at'
+  | 'ends_at'
+>;
+
+export type WaitlistEntry = {
+  reward_id: string;
+  restocked_at: string | null;
+};
+
+// Shown when a reward has no picture of its own
+export const DEFAULT_REWARD_IMAGE = '/placeholder.svg';
+
+/**
+ * Why a reward cannot be redeemed right now, or null if it can. Mirrors the
+ * checks in redeem_reward.
+ */
+export const rewardUnavailableReason = (reward: Reward, now = new Date()) => {
+  if (reward.available === false || reward.archived_at) return "Not available";
+  if (reward.starts_at && new Date(reward.starts_at) > now) {
+    return `Available from ${new Date(reward.starts_at).toLocaleDateString()}`;
+  }
+  if (reward.ends_at && new Date(reward.ends_at) <= now) return "No longer offered";
+  if (reward.stock_quantity === 0) return "Out of stock";
+  return null;
+};
+
+// Running low, but not out yet
+export const isLowStock = (reward: Reward) =>
+  reward.stock_quantity !== null && reward.stock_quantity > 0 && reward.stock_quantity <= reward.low_stock_threshold;
+
+/**
+ * Get the reward catalog in display order. Archived rewards are only
+ * included for the reward manager.
+ */
+export const fetchRewardCatalog = async (includeArchived = false): Promise<Reward[]> => {
+  try {
+    let query = supabase
+      .from('rewards')
+      .select('id, title, description, token_cost, image_url, available, delivery_method, sort_order, archived_at, stock_quantity, low_stock_threshold, per_user_limit, starts_at, ends_at')
+      .order('sort_order', { ascending: true })
+      .order('token_cost', { ascending: true });
+
+    if (!includeArchived) {
+      query = query.is('archived_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching rewards:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error("Exception fetching rewards:", err);
+    return [];
+  }
+};
+
+/**
+ * Create a reward, or update it when `rewardId` is given (admins only).
+ * New rewards go to the end of the catalog. An update leaves the stock alone;
+ * change it with updateRewardStock.
+ */
+export const saveReward = async (rewardId: string | null, reward: RewardInput, sortOrder?: number) => {
+  // Redemptions take stock while the editor is open, so it is never written back
+  const { stock_quantity: _stock, ...fields } = reward;
+
+  const { error } = rewardId
+    ? await supabase
+        .from('rewards')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', rewardId)
+    : await supabase
+        .from('rewards')
+        .insert([{ ...reward, sort_order: sortOrder ?? 0 }]);
+
+  if (error) {
+    console.error("Error saving reward:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+/**
+ * Change a reward's stock (admins only). `loadedQuantity` is the stock the
+ * editor started from: tracked stock moves by the difference, keeping any
+ * units redeemed since. Returns the new stock.
+ */
+export const updateRewardStock = async (
+  rewardId: string,
+  stockQuantity: number | null,
+  loadedQuantity: number | null
+) => {
+  const { data, error } = await supabase.rpc('update_reward_stock', {
+    p_reward_id: rewardId,
+    p_stock_quantity: stockQuantity,
+    p_loaded_quantity: loadedQuantity
+  });
+
+  if (error) {
+    console.error("Error updating reward stock:", error);
+    return { stockQuantity: null, error: error.message };
+  }
+
+  return { stockQuantity: data as number | null, error: null };
+};
+
+/**
+ * Remove a reward from the catalog, or bring it back (admins only). Rewards
+ * are never deleted: redemptions keep referring to them.
+ */
+export const setRewardArchived = async (rewardId: string, archived: boolean) => {
+  const { error } = await supabase
+    .from('rewards')
+    .update({ archived_at: archived ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+    .eq('id', rewardId);
+
+  if (error) {
+    console.error("Error archiving reward:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+/**
+ * Offer a reward or pause it without taking it out of the catalog (admins only)
+ */
+export const setRewardAvailable = async (rewardId: string, available: boolean) => {
+  const { error } = await supabase
+    .from('rewards')
+    .update({ available, updated_at: new Date().toISOString() })
+    .eq('id', rewardId);
+
+  if (error) {
+    console.error("Error updating reward:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+/**
+ * Save the catalog order (admins only)
+ */
+export const reorderRewards = async (rewardIds: string[]) => {
+  const { error } = await supabase.rpc('reorder_rewards', { p_reward_ids: rewardIds });
+
+  if (error) {
+    console.error("Error reordering rewards:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+/**
+ * Downscale and upload a reward picture. Returns its public URL.
+ */
+export const uploadRewardImage = async (file: File) => {
   try {
-    const tokenAmount = getTokensForWasteSize(wasteSize);
-    
-    if (tokenAmount === 0) {
-      console.log("No tokens to award for waste size:", wasteSize);
-      return false;
+    const { blob, contentType, extension, hash } = await prepareRewardImage(file);
+    const bucket = supabase.storage.from('reward-images');
+    const path = `${hash}.${extension}`;
+
+    const { error } = await bucket.upload(path, blob, { contentType, upsert: true });
+    if (error) {
+      console.error("Upload error:", error);
+      return { imageUrl: null, error: `Error uploading image: ${error.message}` };
     }
 
-    // Create transaction record
-    const { error: transactionError } = await supabase
-      .from('token_transactions')
-      .insert({
-        user_id: userId,
-        amount: tokenAmount,
-        description: `Waste report: ${reportTitle}`,
-        transaction_type: 'earned',
-        source_type: 'waste_report'
-      });
-
-    if (transactionError) {
-      console.error("Error creating token transaction:", transactionError);
-      return false;
+    return { imageUrl: bucket.getPublicUrl(path).data.publicUrl, error: null };
+  } catch (err) {
+    console.error("Exception uploading reward image:", err);
+    return { imageUrl: null, error: "Could not read this image" };
+  }
+};
+
+/**
+ * Get the rewards the user is waiting for, keyed by reward id
+ */
+export const fetchMyWaitlist = async (userId: string) => {
+  const entries: Record<string, WaitlistEntry> = {};
+
+  try {
+    const { data, error } = await supabase
+      .from('reward_waitlist')
+      .select('reward_id, restocked_at')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Error fetching waitlist:", error);
+      return entries;
+    }
+
+    for (const row of data || []) {
+      entries[row.reward_id] = row;
     }
+    return entries;
+  } catch (err) {
+    console.error("Exception fetching waitlist:", err);
+    return entries;
+  }
+};
 
-    // Check if user has existing token record
-    const { data: existingTokens, error: fetchError } = await supabase
-      .from('user_tokens')
-      .select('balance, level')
-      .eq('user_id', userId)
-      .maybeSingle();
+/**
+ * Count the users still waiting for each reward (admins only), keyed by reward id
+ */
+export const fetchWaitlistCounts = async () => {
+  const counts: Record<string, number> = {};
 
-    if (fetchError) {
-      console.error("Error fetching user tokens:", fetchError);
-      return false;
+  try {
+    // Counted in the database: one row per reward, however long the waitlist
+    const { data, error } = await supabase.rpc('reward_waitlist_counts');
+
+    if (error) {
+      console.error("Error fetching waitlist counts:", error);
+      return counts;
     }
 
-    if (!existingTokens) {
-      // Create new token record with proper user_id
-      const newLevel = tokenAmount >= 50 ? 2 : 1;
-      const { error: insertError } = await supabase
-        .from('user_tokens')
-        .insert({
-          user_id: userId,
-          balance: tokenAmount,
-          level: newLevel
-        });
-
-      if (insertError) {
-        console.error("Error creating user tokens:", insertError);
-        return false;
-      }
-    } else {
-      // Update existing token record
-      const newBalance = existingTokens.balance + tokenAmount;
-      const newLevel = 
-        newBalance >= 500 ? 5 :
-        newBalance >= 300 ? 4 :
-        newBalance >= 150 ? 3 :
-        newBalance >= 50 ? 2 : 1;
-
-      const { error: updateError } = await supabase
-        .from('user_tokens')
-        .update({
-          balance: newBalance,
-          level: newLevel,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', userId);
-
-      if (updateError) {
-        console.error("Error updating user tokens:", updateError);
-        return false;
-      }
+    for (const row of data || []) {
+      counts[row.reward_id] = row.waiting;
     }
+    return counts;
+  } catch (err) {
+    console.error("Exception fetching waitlist counts:", err);
+    return counts;
+  }
+};
+
+/**
+ * Wait for an out-of-stock reward to be restocked
+ */
+export const joinRewardWaitlist = async (rewardId: string) => {
+  const { error } = await supabase.rpc('join_reward_waitlist', { p_reward_id: rewardId });
 
-    console.log(`Successfully awarded ${tokenAmount} tokens to user ${userId}`);
-    return true;
+  if (error) {
+    console.error("Error joining waitlist:", error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
 
-  } catch (error) {
-    console.error("Exception in updateUserTokensForReport:", error);
-    return false;
+export const leaveRewardWaitlist = async (rewardId: string) => {
+  const { error } = await supabase.rpc('leave_reward_waitlist', { p_reward_id: rewardId });
+
+  if (error) {
+    console.error("Error leaving waitlist:", error);
+    return { error: error.message };
   }
+
+  return { error: null };
 };
@@ -0,0 +1,128 @@
+import { supabase } from "@/lib/supabase";
+
+export type DetectedCategory = {
+  category: string;
+  // 0-100
+  confidence: number;
+};
+
+// Verification object returned by the verify-waste-image function
+export type ImageVerification = {
+  isWaste: boolean;
+  isAuthenticPhoto?: boolean;
+  confidence: number;
+  description: string;
+  reason: string;
+  wasteSize?: string | null;
+  categories?: DetectedCategory[];
+  // The model never gave a valid answer; nothing was decided about the photo
+  inconclusive?: boolean;
+};
+
+export type VerificationSource = 'submission' | 'rerun';
+
+export type StoredVerification = {
+  id: string;
+  report_id: string;
+  source: VerificationSource;
+  is_waste: boolean;
+  is_authentic_photo: boolean | null;
+  confidence: number | null;
+  waste_size: string | null;
+  categories: DetectedCategory[];
+  // Authenticity checks the photo's EXIF couldn't settle, for moderators
+  review_notes: string[];
+  reason: string | null;
+  description: string | null;
+  raw_response: string | null;
+  model: string;
+  inconclusive: boolean;
+  // The report photo that was checked; null for re-runs on the cover image
+  image_id: string | null;
+  created_at: string;
+};
+
+export const toImageVerification = (stored: StoredVerification): ImageVerification => ({
+  isWaste: stored.is_waste,
+  isAuthenticPhoto: stored.is_authentic_photo ?? undefined,
+  confidence: stored.confidence ?? 0,
+  description: stored.description || "",
+  reason: stored.reason || "",
+  wasteSize: stored.waste_size ?? undefined,
+  categories: stored.categories,
+  inconclusive: stored.inconclusive
+});
+
+/**
+ * Store a verification result against a report. Returns the stored row.
+ */
+export const saveReportVerification = async (
+  reportId: string,
+  verification: ImageVerification,
+  model: string,
+  rawResponse: string | null,
+  source: VerificationSource = 'submission'
+) => {
+  try {
+    const { data, error } = await supabase
+      .from('waste_report_verifications')
+      .insert({
+        report_id: reportId,
+        source,
+        is_waste: verification.isWaste,
+        is_authentic_photo: verification.isAuthenticPhoto ?? null,
+        confidence: Math.round(verification.confidence),
+        waste_size: verification.wasteSize ?? null,
+        categories: verification.categories ?? [],
+        reason: verification.reason,
+        description: verification.description,
+        raw_response: rawResponse,
+        model,
+        inconclusive: verification.inconclusive ?? false
+      })
+      .select('id, report_id, source, is_waste, is_authentic_photo, confidence, waste_size, categories, review_notes, reason, description, raw_response, model, inconclusive, image_id, created_at')
+      .single();
+
+    if (error) {
+      console.error("Error saving verification:", error);
+      return null;
+    }
+
+    return data as StoredVerification;
+  } catch (err) {
+    console.error("Exception saving verification:", err);
+    return null;
+  }
+};
+
+/**
+ * Get stored verifications for the given reports, newest first, keyed by report id
+ */
+export const fetchReportVerifications = async (reportIds: string[]) => {
+  const verifications: Record<string, StoredVerification[]> = {};
+
+  if (reportIds.length === 0) {
+    return verifications;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('waste_report_verifications')
+      .select('id, report_id, source, is_waste, is_authentic_photo, confidence, waste_size, categories, review_notes, reason, description, raw_response, model, inconclusive, image_id, created_at')
+      .in('report_id', reportIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching verifications:", error);
+      return verifications;
+    }
+
+    for (const row of data || []) {
+      (verifications[row.report_id] ||= []).push(row as StoredVerification);
+    }
+  } catch (err) {
+    console.error("Exception fetching verifications:", err);
+  }
+
+  return verifications;
+};
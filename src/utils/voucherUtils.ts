@@ -0,0 +1,179 @@
+import { supabase } from "@/lib/supabase";
+
+export type VoucherCounts = {
+  unused: number;
+  issued: number;
+};
+
+// Rows per request when exporting; PostgREST caps responses at 1000 rows
+const EXPORT_PAGE_SIZE = 1000;
+
+export type IssuedVoucher = {
+  code: string;
+  issued_at: string | null;
+  redemption_id: string;
+  redemption: { user_id: string; recipient_name: string | null } | null;
+};
+
+// The first cell of each CSV row. Quoted cells may hold commas, doubled quotes
+// and line breaks, so the text is read a character at a time.
+const readFirstCsvColumn = (text: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let column = 0;
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        if (column === 0) {
+          cell += '"';
+        }
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else if (column === 0) {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      column++;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      cells.push(cell.trim());
+      cell = '';
+      column = 0;
+    } else if (column === 0) {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Read voucher codes from a CSV export: the first column of each row, with an
+ * optional "code" header. Blank rows and repeated codes are dropped.
+ */
+export const parseVoucherCsv = (text: string) => {
+  const codes = readFirstCsvColumn(text).filter(code => code.length > 0);
+
+  if (codes.length > 0 && codes[0].toLowerCase() === 'code') {
+    codes.shift();
+  }
+
+  return Array.from(new Set(codes));
+};
+
+const toCsvCell = (value: string | null | undefined) => {
+  const text = value ?? '';
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Issued codes as CSV, for reconciling with the voucher provider
+ */
+export const issuedVouchersToCsv = (rewardTitle: string, vouchers: IssuedVoucher[]) => {
+  const rows = [
+    ['reward', 'code', 'issued_at', 'redemption_id', 'user_id', 'recipient_name'],
+    ...vouchers.map(voucher => [
+      rewardTitle,
+      voucher.code,
+      voucher.issued_at,
+      voucher.redemption_id,
+      voucher.redemption?.user_id,
+      voucher.redemption?.recipient_name
+    ])
+  ];
+  return rows.map(row => row.map(toCsvCell).join(',')).join('\n') + '\n';
+};
+
+/**
+ * Add codes to a reward's pool (admins only). Returns how many were new.
+ */
+export const importRewardVouchers = async (rewardId: string, codes: string[]) => {
+  const { data, error } = await supabase.rpc('import_reward_vouchers', {
+    p_reward_id: rewardId,
+    p_codes: codes
+  });
+
+  if (error) {
+    console.error("Error importing voucher codes:", error);
+    return { added: 0, error: error.message };
+  }
+
+  return { added: (data as number) || 0, error: null };
+};
+
+/**
+ * Count unused and issued codes per reward (admins only), keyed by reward id
+ */
+export const fetchVoucherCounts = async () => {
+  const counts: Record<string, VoucherCounts> = {};
+
+  try {
+    // Counted in the database: one row per reward, however many codes there are
+    const { data, error } = await supabase.rpc('reward_voucher_counts');
+
+    if (error) {
+      console.error("Error fetching voucher counts:", error);
+      return counts;
+    }
+
+    for (const row of data || []) {
+      counts[row.reward_id] = { unused: row.unused, issued: row.issued };
+    }
+    return counts;
+  } catch (err) {
+    console.error("Exception fetching voucher counts:", err);
+    return counts;
+  }
+};
+
+/**
+ * Get every code issued for a reward, oldest first (admins only). Read a page
+ * at a time so large pools aren't cut off. Returns null if any page fails, so
+ * a partial list is never exported.
+ */
+export const fetchIssuedVouchers = async (rewardId: string): Promise<IssuedVoucher[] | null> => {
+  const vouchers: IssuedVoucher[] = [];
+
+  try {
+    for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('reward_vouchers')
+        .select('code, issued_at, redemption_id, redemption:redeemed_rewards(user_id, recipient_name)')
+        .eq('reward_id', rewardId)
+        .not('redemption_id', 'is', null)
+        .order('issued_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("Error fetching issued vouchers:", error);
+        return null;
+      }
+
+      // The untyped client reads the embedded redemption as a list; each code has one
+      for (const { redemption, ...row } of data || []) {
+        vouchers.push({
+          ...row,
+          redemption: ((Array.isArray(redemption) ? redemption[0] : redemption) ?? null) as IssuedVoucher['redemption']
+        });
+      }
+
+      if (!data || data.length < EXPORT_PAGE_SIZE) {
+        return vouchers;
+      }
+    }
+  } catch (err) {
+    console.error("Exception fetching issued vouchers:", err);
+    return null;
+  }
+};
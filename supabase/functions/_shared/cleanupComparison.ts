@@ -0,0 +1,79 @@
+import { COMPARISON_JSON_SCHEMA, Comparison, comparisonSchema, generateValidated } from "./modelOutput.ts";
+import { VisionImage, VisionProvider } from "./visionModels.ts";
+
+// Minimum AI confidence for a before/after comparison to count as a cleanup
+export const CLEANUP_CONFIDENCE_THRESHOLD = 60;
+
+// The model's answer, or an inconclusive result when it never gave a valid one
+export type CleanupComparison = Comparison & { inconclusive: boolean };
+
+/**
+ * Compare the original report photo ("before") with the collector's "after"
+ * photo. Both images are raw base64 without the data URL prefix.
+ */
+export const compareCleanup = async (provider: VisionProvider, beforeImage: VisionImage, afterImage: VisionImage) => {
+  const prompt = `You are verifying a waste cleanup. The FIRST image is the original waste report ("before"). The SECOND image was taken by the person who claims to have cleaned it up ("after").
+
+      Decide:
+      1. Whether both photos show the same place. Compare fixed features such as buildings, walls, trees, road markings, fences and terrain. Different framing or lighting is fine; a different location is not.
+      2. Whether the waste visible in the before photo has been removed in the after photo.
+
+      Be strict: if the after photo is too close up, too dark, or shows too little of the surroundings to match the location, answer false for samePlace.
+
+      Reply with a single JSON object and nothing else, with exactly these keys:
+      - samePlace (boolean): whether both photos show the same location
+      - wasteRemoved (boolean): whether the waste from the before photo is gone
+      - confidence (number between 0 and 100)
+      - description (string)
+      - reason (string)`;
+
+  const { result, rawResponse, error } = await generateValidated(
+    provider,
+    'compare',
+    prompt,
+    [
+      { data: beforeImage.data, mimeType: beforeImage.mimeType },
+      { data: afterImage.data, mimeType: afterImage.mimeType }
+    ],
+    comparisonSchema,
+    COMPARISON_JSON_SCHEMA
+  );
+
+  // Without a valid answer we can't confirm a cleanup, so don't pass it
+  const comparison: CleanupComparison = result
+    ? { ...result, inconclusive: false }
+    : {
+        samePlace: false,
+        wasteRemoved: false,
+        confidence: 0,
+        description: '',
+        reason: `The AI comparison was inconclusive (${error})`,
+        inconclusive: true
+      };
+
+  return { comparison, model: provider.model, rawResponse };
+};
+
+/**
+ * Why a comparison doesn't count as a cleanup, in words for the collector;
+ * null when it passes.
+ */
+export const cleanupFailureReason = (comparison: CleanupComparison) => {
+  if (comparison.inconclusive) {
+    return "We couldn't get a clear answer about your photo. Please try again.";
+  }
+
+  if (!comparison.samePlace) {
+    return "The after photo doesn't appear to show the same place as the report.";
+  }
+
+  if (!comparison.wasteRemoved) {
+    return "Waste is still visible in the after photo.";
+  }
+
+  if (comparison.confidence < CLEANUP_CONFIDENCE_THRESHOLD) {
+    return "We couldn't confirm the cleanup with enough confidence. Try a wider shot of the same spot.";
+  }
+
+  return null;
+};
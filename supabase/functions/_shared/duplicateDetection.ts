@@ -0,0 +1,81 @@
+import { decode as decodeImage, Image } from "https://deno.land/x/imagescript@1.2.15/mod.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface SimilarReport {
+  id: string;
+  title: string;
+  location: string;
+  status: string;
+  created_at: string;
+  hash_distance: number | null;
+  distance_km: number | null;
+}
+
+// Hashes within this many bits are treated as the same photo
+export const SAME_PHOTO_HASH_DISTANCE = 6;
+
+/**
+ * 64-bit difference hash (dHash) of an image as 16 hex characters. Survives
+ * re-encoding, resizing and small edits, so re-uploads of one photo match.
+ */
+export const perceptualHash = async (bytes: Uint8Array) => {
+  const decoded = await decodeImage(bytes);
+  // Animated images: hash the first frame
+  const image = decoded instanceof Image ? decoded : decoded[0];
+  const small = image.clone().resize(9, 8);
+
+  let hash = '';
+  let nibble = 0;
+
+  for (let y = 1; y <= 8; y++) {
+    const row: number[] = [];
+    for (let x = 1; x <= 9; x++) {
+      const [r, g, b] = small.getRGBAAt(x, y);
+      row.push(0.299 * r + 0.587 * g + 0.114 * b);
+    }
+
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (row[x] < row[x + 1] ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+};
+
+// Earlier reports with a photo that looks like any of these, or reported close
+// by recently
+export const findSimilarReports = async (
+  admin: SupabaseClient,
+  imageHashes: (string | null)[],
+  coordinates: { latitude: number; longitude: number } | null,
+  excludeId?: string
+) => {
+  const { data, error } = await admin.rpc('find_similar_waste_reports', {
+    p_image_hashes: imageHashes.filter((hash): hash is string => hash !== null),
+    p_latitude: coordinates?.latitude ?? null,
+    p_longitude: coordinates?.longitude ?? null,
+    p_exclude_id: excludeId ?? null,
+    p_max_hash_distance: SAME_PHOTO_HASH_DISTANCE
+  });
+
+  if (error) {
+    console.error('Error finding similar reports:', error);
+    return [];
+  }
+
+  return (data || []) as SimilarReport[];
+};
+
+// What reporters are shown about a possible duplicate: no images or owners
+export const toDuplicateWarning = (report: SimilarReport) => ({
+  id: report.id,
+  title: report.title,
+  status: report.status,
+  created_at: report.created_at,
+  samePhoto: report.hash_distance !== null && report.hash_distance <= SAME_PHOTO_HASH_DISTANCE,
+  distanceMeters: report.distance_km !== null ? Math.round(report.distance_km * 1000) : null
+});
@@ -0,0 +1,244 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Reverse geocoding behind one interface. The provider is chosen with
+// GEOCODER_PROVIDER ("nominatim", "google" or "static"); by default Google is
+// used when GOOGLE_MAPS_API_KEY is set and Nominatim otherwise. Failures never
+// throw: callers get null and keep the bare coordinates.
+
+export interface GeocodeResult {
+  address: string;
+  // Provider that resolved the address
+  source: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  // Minimum gap between outbound calls, shared across function instances
+  minIntervalMs: number;
+  reverse(latitude: number, longitude: number): Promise<string | null>;
+}
+
+type StaticPlace = {
+  latitude: number;
+  longitude: number;
+  address: string;
+};
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Cached results are reused for this long
+const CACHE_TTL_DAYS = 30;
+
+// Coordinates are rounded to 4 decimal places (about 11 m) for caching
+const coordinateKey = (value: number) => Math.round(value * 10000);
+
+const fetchWithTimeout = (url: string, init: RequestInit = {}) =>
+  fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+// OpenStreetMap Nominatim. Set NOMINATIM_URL to use a self-hosted instance.
+export const createNominatimProvider = (baseUrl: string, userAgent: string): GeocodingProvider => ({
+  name: 'nominatim',
+  // Usage policy: no more than one request per second
+  minIntervalMs: 1000,
+  async reverse(latitude, longitude) {
+    const response = await fetchWithTimeout(
+      `${baseUrl}/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=18&addressdetails=1`,
+      { headers: { 'Accept-Language': 'en', 'User-Agent': userAgent } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Nominatim error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data?.display_name || null;
+  }
+});
+
+export const createGoogleProvider = (apiKey: string): GeocodingProvider => ({
+  name: 'google',
+  minIntervalMs: 0,
+  async reverse(latitude, longitude) {
+    const response = await fetchWithTimeout(
+      `https://maps.googleapis.com/maps/api/geocode/json?latlng=${latitude},${longitude}&key=${apiKey}`
+    );
+    const data = await response.json();
+
+    if (data.status === "OK" && data.results && data.results.length > 0) {
+      return data.results[0].formatted_address as string;
+    }
+
+    return null;
+  }
+});
+
+// Fixed list of places for offline use and tests: returns the nearest place
+// within radiusKm of the point
+export const createStaticProvider = (places: StaticPlace[], radiusKm = 1): GeocodingProvider => ({
+  name: 'static',
+  minIntervalMs: 0,
+  reverse(latitude, longitude) {
+    const kmPerDegree = 111.32;
+    let nearest: { address: string; distanceKm: number } | null = null;
+
+    for (const place of places) {
+      const dLat = (place.latitude - latitude) * kmPerDegree;
+      const dLng = (place.longitude - longitude) * kmPerDegree * Math.cos((latitude * Math.PI) / 180);
+      const distanceKm = Math.sqrt(dLat * dLat + dLng * dLng);
+
+      if (distanceKm <= radiusKm && (!nearest || distanceKm < nearest.distanceKm)) {
+        nearest = { address: place.address, distanceKm };
+      }
+    }
+
+    return Promise.resolve(nearest?.address ?? null);
+  }
+});
+
+export const getGeocodingProvider = (): GeocodingProvider => {
+  const GOOGLE_MAPS_API_KEY = Deno.env.get('GOOGLE_MAPS_API_KEY');
+  const configured = Deno.env.get('GEOCODER_PROVIDER') || (GOOGLE_MAPS_API_KEY ? 'google' : 'nominatim');
+
+  if (configured === 'google' && GOOGLE_MAPS_API_KEY) {
+    return createGoogleProvider(GOOGLE_MAPS_API_KEY);
+  }
+
+  if (configured === 'static') {
+    let places: StaticPlace[] = [];
+    try {
+      places = JSON.parse(Deno.env.get('GEOCODER_STATIC_PLACES') || '[]');
+    } catch (error) {
+      console.error('GEOCODER_STATIC_PLACES is not valid JSON:', error);
+    }
+    return createStaticProvider(places);
+  }
+
+  return createNominatimProvider(
+    Deno.env.get('NOMINATIM_URL') || 'https://nominatim.openstreetmap.org',
+    Deno.env.get('NOMINATIM_USER_AGENT') || 'WasteTracker/1.0'
+  );
+};
+
+let serviceClient: SupabaseClient | null = null;
+
+const getServiceClient = () => {
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return null;
+
+  serviceClient ||= createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  return serviceClient;
+};
+
+// Results from this instance, in front of the shared database cache
+const memoryCache = new Map<string, string>();
+
+const readCache = async (provider: string, latKey: number, lngKey: number) => {
+  const memoryKey = `${provider}:${latKey}:${lngKey}`;
+  if (memoryCache.has(memoryKey)) {
+    return memoryCache.get(memoryKey)!;
+  }
+
+  const client = getServiceClient();
+  if (!client) return null;
+
+  const { data, error } = await client
+    .from('geocode_cache')
+    .select('address')
+    .eq('provider', provider)
+    .eq('lat_key', latKey)
+    .eq('lng_key', lngKey)
+    .gte('created_at', new Date(Date.now() - CACHE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading geocode cache:', error);
+    return null;
+  }
+
+  if (data) {
+    memoryCache.set(memoryKey, data.address);
+  }
+
+  return data?.address ?? null;
+};
+
+const writeCache = async (provider: string, latKey: number, lngKey: number, address: string) => {
+  memoryCache.set(`${provider}:${latKey}:${lngKey}`, address);
+
+  const client = getServiceClient();
+  if (!client) return;
+
+  const { error } = await client
+    .from('geocode_cache')
+    .upsert({ provider, lat_key: latKey, lng_key: lngKey, address, created_at: new Date().toISOString() });
+
+  if (error) {
+    console.error('Error writing geocode cache:', error);
+  }
+};
+
+// Wait for the provider's next outbound slot; gives up after a few tries
+const waitForSlot = async (provider: GeocodingProvider) => {
+  if (provider.minIntervalMs <= 0) return true;
+
+  const client = getServiceClient();
+  if (!client) return false;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data, error } = await client.rpc('claim_geocoder_slot', {
+      p_provider: provider.name,
+      p_min_interval_ms: provider.minIntervalMs
+    });
+
+    if (error) {
+      console.error('Error claiming geocoder slot:', error);
+      return false;
+    }
+
+    if (data) return true;
+
+    await new Promise(resolve => setTimeout(resolve, provider.minIntervalMs));
+  }
+
+  return false;
+};
+
+/**
+ * Look up an address for coordinates, or null to fall back to coordinates only
+ */
+export const reverseGeocode = async (
+  latitude: number,
+  longitude: number,
+  provider: GeocodingProvider = getGeocodingProvider()
+): Promise<GeocodeResult | null> => {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+
+  const latKey = coordinateKey(latitude);
+  const lngKey = coordinateKey(longitude);
+
+  try {
+    const cached = await readCache(provider.name, latKey, lngKey);
+    if (cached) {
+      return { address: cached, source: provider.name };
+    }
+
+    if (!(await waitForSlot(provider))) {
+      console.log(`Geocoder ${provider.name} is rate limited; using coordinates only`);
+      return null;
+    }
+
+    const address = await provider.reverse(latitude, longitude);
+    if (!address) {
+      return null;
+    }
+
+    await writeCache(provider.name, latKey, lngKey, address);
+    return { address, source: provider.name };
+  } catch (error) {
+    console.error(`Error reverse geocoding with ${provider.name}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,196 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { JsonSchema, VisionImage, VisionProvider, VisionTask } from "./visionModels.ts";
+
+// Schemas the vision models must answer with. Anything that doesn't match is
+// retried, then reported as inconclusive: answers are never guessed from text.
+
+export const WASTE_SIZES = ['small', 'medium', 'large'] as const;
+
+// Waste types a report can be tagged with. Keep in sync with the check on
+// waste_reports.waste_categories and src/constants/wasteCategories.ts.
+export const WASTE_CATEGORIES = [
+  'plastic_bottles',
+  'plastic_bags',
+  'packaging',
+  'glass',
+  'metal',
+  'paper',
+  'textiles',
+  'e_waste',
+  'construction_debris',
+  'organic',
+  'bulky',
+  'hazardous',
+  'medical',
+  'mixed'
+] as const;
+
+// Categories that keep a report out of volunteer collection
+export const HAZARDOUS_WASTE_CATEGORIES: readonly string[] = ['hazardous', 'medical'];
+
+// Detected categories at or above this confidence are suggested to the reporter
+export const CATEGORY_CONFIDENCE_THRESHOLD = 50;
+
+// How many times to ask the model before giving up
+const MAX_ATTEMPTS = 2;
+
+export const classificationSchema = z.object({
+  isWaste: z.boolean(),
+  isAuthenticPhoto: z.boolean(),
+  confidence: z.number().min(0).max(100),
+  description: z.string(),
+  reason: z.string(),
+  wasteSize: z.enum(WASTE_SIZES).nullable(),
+  categories: z.array(z.object({
+    category: z.enum(WASTE_CATEGORIES),
+    confidence: z.number().min(0).max(100)
+  }))
+}).refine(result => !result.isWaste || result.wasteSize !== null, {
+  message: 'wasteSize is required when isWaste is true',
+  path: ['wasteSize']
+});
+
+export const comparisonSchema = z.object({
+  samePlace: z.boolean(),
+  wasteRemoved: z.boolean(),
+  confidence: z.number().min(0).max(100),
+  description: z.string(),
+  reason: z.string()
+});
+
+export type Classification = z.infer<typeof classificationSchema>;
+export type Comparison = z.infer<typeof comparisonSchema>;
+
+// JSON Schema versions of the above, passed to providers that support
+// constrained output
+export const CLASSIFICATION_JSON_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    isWaste: { type: 'boolean' },
+    isAuthenticPhoto: { type: 'boolean' },
+    confidence: { type: 'number' },
+    description: { type: 'string' },
+    reason: { type: 'string' },
+    wasteSize: { type: 'string', enum: WASTE_SIZES, nullable: true },
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: WASTE_CATEGORIES },
+          confidence: { type: 'number' }
+        },
+        required: ['category', 'confidence']
+      }
+    }
+  },
+  required: ['isWaste', 'isAuthenticPhoto', 'confidence', 'description', 'reason', 'wasteSize', 'categories']
+};
+
+export const COMPARISON_JSON_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    samePlace: { type: 'boolean' },
+    wasteRemoved: { type: 'boolean' },
+    confidence: { type: 'number' },
+    description: { type: 'string' },
+    reason: { type: 'string' }
+  },
+  required: ['samePlace', 'wasteRemoved', 'confidence', 'description', 'reason']
+};
+
+// Parse a whole response as JSON. A surrounding ```json fence is tolerated;
+// text around the object is not.
+const parseJson = (textResponse: string): unknown => {
+  const trimmed = textResponse.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : trimmed);
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ');
+
+export interface ValidatedOutput<T> {
+  // Null when no attempt produced a valid answer
+  result: T | null;
+  // Every model response, in order, for the audit trail
+  rawResponse: string;
+  error: string | null;
+}
+
+/**
+ * Ask the model and validate the answer against `schema`, retrying with the
+ * validation errors if it doesn't match
+ */
+export const generateValidated = async <T>(
+  provider: VisionProvider,
+  task: VisionTask,
+  prompt: string,
+  images: VisionImage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  jsonSchema: JsonSchema
+): Promise<ValidatedOutput<T>> => {
+  const responses: string[] = [];
+  let error: string | null = null;
+  let attemptPrompt = prompt;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const textResponse = await provider.generate(task, attemptPrompt, images, jsonSchema);
+    responses.push(textResponse);
+
+    let parsed: unknown;
+    try {
+      parsed = parseJson(textResponse);
+    } catch {
+      error = 'response is not valid JSON';
+      attemptPrompt = `${prompt}\n\nYour previous answer was not valid JSON. Reply with a single JSON object only.`;
+      continue;
+    }
+
+    const validation = schema.safeParse(parsed);
+    if (validation.success) {
+      return { result: validation.data, rawResponse: responses.join('\n---\n'), error: null };
+    }
+
+    error = describeIssues(validation.error);
+    attemptPrompt = `${prompt}\n\nYour previous answer did not match the required format (${error}). Reply with a single JSON object only.`;
+  }
+
+  console.log(`${provider.name} gave no valid ${task} answer after ${MAX_ATTEMPTS} attempts: ${error}`);
+  return { result: null, rawResponse: responses.join('\n---\n'), error };
+};
+
+/**
+ * Report-level size from the sizes of its photos: the size most photos agree
+ * on, ties going to the larger one
+ */
+export const aggregateWasteSize = (sizes: Classification['wasteSize'][]) => {
+  let best: (typeof WASTE_SIZES)[number] | null = null;
+  let bestCount = 0;
+
+  for (const size of WASTE_SIZES) {
+    const count = sizes.filter(s => s === size).length;
+    if (count > 0 && count >= bestCount) {
+      best = size;
+      bestCount = count;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Report-level categories from the categories detected in its photos: each
+ * category with the highest confidence any photo gave it, most confident first
+ */
+export const aggregateCategories = (lists: Classification['categories'][]) => {
+  const best = new Map<string, number>();
+
+  for (const { category, confidence } of lists.flat()) {
+    best.set(category, Math.max(best.get(category) ?? 0, confidence));
+  }
+
+  return [...best.entries()]
+    .map(([category, confidence]) => ({ category, confidence }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
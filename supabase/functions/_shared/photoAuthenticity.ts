@@ -0,0 +1,115 @@
+// Authenticity checks from the photo's EXIF metadata, run alongside the model.
+// A hard failure rejects the photo whatever the model says; the remaining
+// signals are passed to the model as context.
+//
+// The EXIF is read on the device, because the stored photo is re-encoded and
+// has none. A client can leave it out, so a missing capture time or GPS never
+// counts as a pass: it is recorded for moderators to check instead.
+
+export interface PhotoExif {
+  capturedAt?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  make?: string | null;
+  model?: string | null;
+  software?: string | null;
+  editedWith?: string | null;
+}
+
+export interface AuthenticityAssessment {
+  // Hours between capture and now, null without a capture time
+  photoAgeHours: number | null;
+  // Kilometres between the EXIF GPS and the device location
+  gpsDistanceKm: number | null;
+  // Notes for the model prompt
+  signals: string[];
+  // Checks the EXIF couldn't settle, for moderators to look at
+  reviewNotes: string[];
+  // Why the photo can't be accepted, or null
+  failure: string | null;
+}
+
+// Photos must be recent enough to show the waste as it is now
+const MAX_PHOTO_AGE_HOURS = 72;
+
+// Allowed gap between where the photo was taken and where the reporter is
+const MAX_GPS_DISTANCE_KM = 2;
+
+// Camera clocks drift; anything further in the future than this is not a real capture time
+const MAX_CLOCK_SKEW_HOURS = 24;
+
+const haversineKm = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const assessPhotoAuthenticity = (
+  exif: PhotoExif | null | undefined,
+  location: { latitude: number; longitude: number } | null,
+  now = new Date()
+): AuthenticityAssessment => {
+  const signals: string[] = [];
+  const reviewNotes: string[] = [];
+  let failure: string | null = null;
+  let photoAgeHours: number | null = null;
+  let gpsDistanceKm: number | null = null;
+
+  if (!exif) {
+    return {
+      photoAgeHours,
+      gpsDistanceKm,
+      signals: ['The photo has no EXIF metadata (common for screenshots and downloaded images).'],
+      reviewNotes: ['No EXIF metadata was sent, so the capture time and place could not be checked.'],
+      failure
+    };
+  }
+
+  const capturedAt = exif.capturedAt ? new Date(exif.capturedAt) : null;
+  if (capturedAt && !Number.isNaN(capturedAt.getTime())) {
+    photoAgeHours = (now.getTime() - capturedAt.getTime()) / (60 * 60 * 1000);
+
+    if (photoAgeHours < -MAX_CLOCK_SKEW_HOURS) {
+      failure = 'The photo capture time is in the future';
+    } else if (photoAgeHours > MAX_PHOTO_AGE_HOURS) {
+      failure = `The photo was taken ${Math.round(photoAgeHours / 24)} days ago; please take a new photo`;
+    } else {
+      signals.push(`EXIF capture time ${capturedAt.toISOString()} (${Math.max(0, Math.round(photoAgeHours))} hours ago).`);
+    }
+  } else {
+    signals.push('The photo has no EXIF capture time.');
+    reviewNotes.push('No EXIF capture time, so the age of the photo could not be checked.');
+  }
+
+  if (exif.latitude != null && exif.longitude != null) {
+    if (location) {
+      gpsDistanceKm = haversineKm(exif.latitude, exif.longitude, location.latitude, location.longitude);
+
+      if (gpsDistanceKm > MAX_GPS_DISTANCE_KM) {
+        failure ||= `The photo was taken ${gpsDistanceKm.toFixed(1)} km from your current location`;
+      } else {
+        signals.push(`EXIF GPS is ${Math.round(gpsDistanceKm * 1000)} m from the device location.`);
+      }
+    } else {
+      signals.push('The photo has EXIF GPS but no device location was shared.');
+      reviewNotes.push('No device location was shared, so the EXIF GPS could not be compared.');
+    }
+  } else {
+    signals.push('The photo has no EXIF GPS tags.');
+    reviewNotes.push('No EXIF GPS, so where the photo was taken could not be checked.');
+  }
+
+  if (exif.make || exif.model) {
+    signals.push(`Camera: ${[exif.make, exif.model].filter(Boolean).join(' ')}.`);
+  }
+
+  // Only known editors are tagged, never the phone's own software
+  if (exif.editedWith) {
+    failure ||= `The photo was edited with ${exif.editedWith}; please use the original photo`;
+  }
+
+  return { photoAgeHours, gpsDistanceKm, signals, reviewNotes, failure };
+};
@@ -0,0 +1,202 @@
+// Vision model backends behind one interface. Chosen with VISION_PROVIDER:
+//   gemini  (default) Google Gemini, needs GEMINI_API_KEY; GEMINI_MODEL overrides the model
+//   openai  any OpenAI-compatible chat completions API, needs VISION_API_KEY;
+//           VISION_API_URL and VISION_MODEL select the host and model
+//   stub    deterministic answers without network access, for development and tests
+
+export interface VisionImage {
+  // Raw base64 without the data URL prefix
+  data: string;
+  mimeType: string;
+}
+
+// What the prompt asks for, so the stub can answer in the right shape
+export type VisionTask = 'classify' | 'compare';
+
+// The subset of JSON Schema that every provider's structured output accepts
+export type JsonSchema = {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: readonly string[];
+  nullable?: boolean;
+};
+
+export interface VisionProvider {
+  name: string;
+  // Recorded with every result so stored verifications show which model made them
+  model: string;
+  // With a schema the provider asks the model for JSON output only
+  generate(task: VisionTask, prompt: string, images: VisionImage[], schema?: JsonSchema): Promise<string>;
+}
+
+// Gemini names schema types in upper case
+const toGeminiSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  ...schema,
+  type: schema.type.toUpperCase(),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    )
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) })
+});
+
+export const createGeminiProvider = (apiKey: string, model = "gemini-1.5-flash"): VisionProvider => ({
+  name: 'gemini',
+  model,
+  async generate(_task, prompt, images, schema) {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": apiKey,
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [
+            { text: prompt },
+            ...images.map(image => ({ inline_data: { mime_type: image.mimeType, data: image.data } }))
+          ]
+        }],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: 1000,
+          ...(schema && {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(schema)
+          })
+        }
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Gemini API error:', errorData);
+      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+  }
+});
+
+export const createOpenAICompatibleProvider = (apiKey: string, model: string, baseUrl: string): VisionProvider => ({
+  name: 'openai',
+  model,
+  async generate(_task, prompt, images, schema) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        max_tokens: 1000,
+        // JSON mode is the most widely supported option across compatible
+        // servers; the schema itself is described in the prompt
+        ...(schema && { response_format: { type: "json_object" } }),
+        messages: [{
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            ...images.map(image => ({
+              type: "image_url",
+              image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+            }))
+          ]
+        }]
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Vision API error:', errorData);
+      throw new Error(`Vision API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  }
+});
+
+// Small stable number from the image content, so the same photo always gets the same answer
+const imageChecksum = (images: VisionImage[]) => {
+  let checksum = 0;
+  for (const image of images) {
+    const sample = image.data.slice(0, 4096);
+    for (let i = 0; i < sample.length; i++) {
+      checksum = (checksum * 31 + sample.charCodeAt(i)) >>> 0;
+    }
+  }
+  return checksum;
+};
+
+// Answers from fixed rules instead of a model. VISION_STUB_CLASSIFY and
+// VISION_STUB_COMPARE (JSON) override the answers, e.g. to test rejections.
+export const createStubProvider = (overrides: Partial<Record<VisionTask, string>> = {}): VisionProvider => ({
+  name: 'stub',
+  model: 'stub-v1',
+  generate(task, _prompt, images) {
+    if (overrides[task]) {
+      return Promise.resolve(overrides[task]!);
+    }
+
+    if (task === 'compare') {
+      return Promise.resolve(JSON.stringify({
+        samePlace: true,
+        wasteRemoved: true,
+        confidence: 90,
+        description: "Stub comparison",
+        reason: "Deterministic stub provider"
+      }));
+    }
+
+    const wasteSizes = ['small', 'medium', 'large'];
+    return Promise.resolve(JSON.stringify({
+      isWaste: true,
+      isAuthenticPhoto: true,
+      confidence: 90,
+      description: "Stub classification",
+      reason: "Deterministic stub provider",
+      wasteSize: wasteSizes[imageChecksum(images) % wasteSizes.length],
+      categories: [{ category: 'mixed', confidence: 90 }]
+    }));
+  }
+});
+
+export const getVisionProvider = (): VisionProvider => {
+  const provider = Deno.env.get('VISION_PROVIDER') || 'gemini';
+
+  if (provider === 'stub') {
+    return createStubProvider({
+      classify: Deno.env.get('VISION_STUB_CLASSIFY') || undefined,
+      compare: Deno.env.get('VISION_STUB_COMPARE') || undefined
+    });
+  }
+
+  if (provider === 'openai') {
+    const VISION_API_KEY = Deno.env.get('VISION_API_KEY');
+    if (!VISION_API_KEY) {
+      throw new Error('VISION_API_KEY is not set');
+    }
+    return createOpenAICompatibleProvider(
+      VISION_API_KEY,
+      Deno.env.get('VISION_MODEL') || 'gpt-4o-mini',
+      Deno.env.get('VISION_API_URL') || 'https://api.openai.com/v1'
+    );
+  }
+
+  if (provider !== 'gemini') {
+    throw new Error(`Unknown VISION_PROVIDER: ${provider}`);
+  }
+
+  const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+  if (!GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY is not set');
+  }
+  return createGeminiProvider(GEMINI_API_KEY, Deno.env.get('GEMINI_MODEL') || undefined);
+};
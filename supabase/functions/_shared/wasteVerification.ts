@@ -0,0 +1,154 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { reverseGeocode } from "./geocoding.ts";
+import { PhotoExif, assessPhotoAuthenticity } from "./photoAuthenticity.ts";
+import {
+  CLASSIFICATION_JSON_SCHEMA,
+  Classification,
+  WASTE_CATEGORIES,
+  classificationSchema,
+  generateValidated
+} from "./modelOutput.ts";
+import { VisionImage, VisionProvider } from "./visionModels.ts";
+
+export interface VerificationLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  address?: string;
+  // Geocoder that resolved the address
+  source?: string;
+}
+
+export interface VerificationDeviceInfo {
+  source?: 'camera' | 'upload';
+  type?: string;
+  model?: string;
+  // Parsed on the device before upload; null when the photo has no metadata
+  exif?: PhotoExif | null;
+}
+
+// The model's answer, or an inconclusive result when it never gave a valid one
+export type WasteVerification = Classification & { inconclusive: boolean };
+
+// Only images from our own storage are trusted for server-side checks
+export const fetchStoredImage = async (imageUrl: string) => {
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+  if (!SUPABASE_URL || !imageUrl.startsWith(`${SUPABASE_URL}/storage/`)) {
+    throw new Error('Image must be stored in this project');
+  }
+
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Could not load stored image: ${response.status}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  return {
+    mimeType: response.headers.get('content-type') || 'image/jpeg',
+    data: encodeBase64(bytes),
+    bytes
+  };
+};
+
+/**
+ * Ask the model whether a photo shows genuine waste, how much of it there is
+ * and what kinds.
+ * `image.data` is raw base64 without the data URL prefix.
+ */
+export const verifyWasteImage = async (
+  provider: VisionProvider,
+  image: VisionImage,
+  location: VerificationLocation | null,
+  deviceInfo: VerificationDeviceInfo | null
+) => {
+  // EXIF checks: an old photo or one taken far from the reporter is rejected
+  const authenticity = assessPhotoAuthenticity(deviceInfo?.exif, location);
+
+  // Enhanced location data
+  let locationInfo = "No location data available";
+  let formattedAddress: string | null = null;
+  let geocoderSource: string | null = null;
+
+  if (location) {
+    locationInfo = `The image was taken at latitude: ${location.latitude}, longitude: ${location.longitude}`;
+
+    // Use the address the client already resolved, otherwise look it up
+    if (location.address) {
+      formattedAddress = location.address;
+      geocoderSource = location.source || null;
+    } else if (location.latitude && location.longitude) {
+      const geocoded = await reverseGeocode(location.latitude, location.longitude);
+      formattedAddress = geocoded?.address ?? null;
+      geocoderSource = geocoded?.source ?? null;
+    }
+
+    if (formattedAddress) {
+      locationInfo += `, address: ${formattedAddress}`;
+    }
+  }
+
+  // Device info for enhanced verification
+  const deviceContext = deviceInfo ?
+    `This photo was ${deviceInfo.source === 'camera' ? 'captured with the camera' : 'uploaded from the gallery'} of a ${deviceInfo.type || 'device'}.
+     ${authenticity.signals.join(' ')}` :
+    'No device information available to verify authenticity.';
+
+  const prompt = `Analyze this image and determine if it shows genuine waste or plastic pollution. ${locationInfo}. ${deviceContext}
+
+      VERY IMPORTANT: This should be a real image taken by a user's device. Examine the image carefully for signs it was downloaded from the internet, like watermarks, stock photo indicators, or professional studio quality. Reject images that appear to be screenshots, memes, or stock photos.
+
+      If it's real waste, determine its size category (small, medium, or large) based on the following criteria:
+      - Small: Single items or small collections that one person could easily pick up (e.g., a few bottles, a small bag of trash)
+      - Medium: Moderate amounts requiring some effort to clean (e.g., a pile of trash, multiple containers)
+      - Large: Significant waste that would require a team effort (e.g., dump sites, large collections)
+
+      Also list the types of waste you can see, each with your confidence (0-100). Use only these categories: ${WASTE_CATEGORIES.join(', ')}.
+      Use "hazardous" for chemicals, batteries, paint, oil, gas cylinders or anything that may contain asbestos, and "medical" for needles, syringes or other clinical waste. Use "mixed" for general litter that fits no other category.
+
+      Reply with a single JSON object and nothing else, with exactly these keys:
+      - isWaste (boolean): whether this shows actual waste
+      - isAuthenticPhoto (boolean): whether this appears to be an authentic user photo and not from the internet
+      - confidence (number between 0 and 100)
+      - description (string)
+      - reason (string)
+      - wasteSize ("small", "medium" or "large"; null if this is not waste)
+      - categories (array of { category, confidence } objects; empty if this is not waste)`;
+
+  // Ask the configured vision model, with the location and device context
+  const { result, rawResponse, error } = await generateValidated(
+    provider,
+    'classify',
+    prompt,
+    [image],
+    classificationSchema,
+    CLASSIFICATION_JSON_SCHEMA
+  );
+
+  // Without a valid answer nothing is assumed about the photo
+  let verificationResult: WasteVerification = result
+    ? { ...result, inconclusive: false }
+    : {
+        isWaste: false,
+        isAuthenticPhoto: false,
+        confidence: 0,
+        description: '',
+        reason: `The AI result was inconclusive (${error})`,
+        wasteSize: null,
+        categories: [],
+        inconclusive: true
+      };
+
+  if (result && authenticity.failure) {
+    verificationResult = { ...verificationResult, isAuthenticPhoto: false, reason: authenticity.failure };
+  }
+
+  return {
+    verification: verificationResult,
+    authenticity,
+    formattedAddress,
+    geocoderSource,
+    model: provider.model,
+    rawResponse
+  };
+};
@@ -0,0 +1,46 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { decode as decodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { findSimilarReports, perceptualHash, toDuplicateWarning } from "../_shared/duplicateDetection.ts";
+
+// Lets reporters see likely duplicates of a photo before they submit it
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { base64Image, geoLocation } = await req.json();
+
+    if (!base64Image) {
+      return new Response(
+        JSON.stringify({ error: 'No image provided' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    let imageHash: string | null = null;
+    try {
+      imageHash = await perceptualHash(decodeBase64(base64Image.split(',')[1]));
+    } catch (error) {
+      // Unsupported formats can still be matched by location
+      console.error('Could not hash image:', error);
+    }
+
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const similar = await findSimilarReports(admin, [imageHash], geoLocation || null);
+
+    return new Response(
+      JSON.stringify({ duplicates: similar.map(toDuplicateWarning) }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in check-duplicate-reports function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
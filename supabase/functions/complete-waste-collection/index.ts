@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { fetchStoredImage } from "../_shared/wasteVerification.ts";
+import { cleanupFailureReason, compareCleanup } from "../_shared/cleanupComparison.ts";
+import { getVisionProvider } from "../_shared/visionModels.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  });
+
+// Marks a claimed report as collected only after the collector's stored
+// "after" photo passes the before/after comparison here, then pays them.
+// Completing and paying are service-role-only database calls, so a client
+// can't skip the comparison.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+    const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Identify the collector from their own session
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Please login to collect a report' }, 401);
+    }
+
+    const { reportId, afterImageUrl } = await req.json();
+
+    if (!reportId || !afterImageUrl) {
+      return jsonResponse({ error: 'A report and an after photo are required' }, 400);
+    }
+
+    // After photos are uploaded to the report's collections folder
+    const collectionFolder = `${SUPABASE_URL}/storage/v1/object/public/waste-images/collections/${reportId}/`;
+    if (!afterImageUrl.startsWith(collectionFolder)) {
+      return jsonResponse({ error: 'The after photo must be uploaded for this report' }, 400);
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: report, error: reportError } = await admin
+      .from('waste_reports')
+      .select('id, image_url, status, claimed_by, collected_by')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (reportError) {
+      throw new Error(`Could not load report: ${reportError.message}`);
+    }
+
+    if (!report) {
+      return jsonResponse({ error: 'Report not found' }, 404);
+    }
+
+    // A retry after the collection was recorded only still needs paying
+    const alreadyCollected = report.status === 'collected' && report.collected_by === user.id;
+
+    if (!alreadyCollected) {
+      if (report.status !== 'claimed' || report.claimed_by !== user.id) {
+        return jsonResponse({ error: 'You do not hold a claim on this report' }, 403);
+      }
+
+      if (!report.image_url) {
+        return jsonResponse({ error: 'This report has no original photo to compare your cleanup against.' }, 422);
+      }
+
+      const [beforeImage, afterImage] = await Promise.all([
+        fetchStoredImage(report.image_url),
+        fetchStoredImage(afterImageUrl)
+      ]);
+
+      const { comparison, model } = await compareCleanup(getVisionProvider(), beforeImage, afterImage);
+
+      const failure = cleanupFailureReason(comparison);
+      if (failure) {
+        return jsonResponse({ error: failure, comparison }, 422);
+      }
+
+      const { error: completeError } = await admin.rpc('complete_waste_report_collection', {
+        p_report_id: reportId,
+        p_collector_id: user.id,
+        p_after_image_url: afterImageUrl,
+        // Stored on the report; paying requires a passing result
+        p_comparison: {
+          passed: true,
+          samePlace: comparison.samePlace,
+          wasteRemoved: comparison.wasteRemoved,
+          confidence: Math.round(comparison.confidence),
+          reason: comparison.reason,
+          model
+        }
+      });
+
+      if (completeError) {
+        return jsonResponse({ error: completeError.message }, 409);
+      }
+    }
+
+    // Returns 0 when the cleanup was already paid for
+    const { data: tokensAwarded, error: awardError } = await admin.rpc('award_collection_tokens', {
+      p_report_id: reportId
+    });
+
+    if (awardError) {
+      // The collection stands; calling again pays it
+      console.error('Error awarding collection tokens:', awardError);
+    }
+
+    return jsonResponse({ tokensAwarded: awardError ? 0 : tokensAwarded ?? 0 });
+  } catch (error) {
+    console.error('Error in complete-waste-collection function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
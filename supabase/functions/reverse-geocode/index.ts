@@ -0,0 +1,36 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { reverseGeocode } from "../_shared/geocoding.ts";
+
+// Address lookup for the browser, so every client goes through the shared
+// provider, cache and rate limit. Returns a null address when it can't resolve one.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { latitude, longitude } = await req.json();
+
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+      return new Response(
+        JSON.stringify({ error: 'Latitude and longitude are required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const result = await reverseGeocode(latitude, longitude);
+
+    return new Response(
+      JSON.stringify({ address: result?.address ?? null, source: result?.source ?? null }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in reverse-geocode function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,246 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { VerificationDeviceInfo, fetchStoredImage, verifyWasteImage } from "../_shared/wasteVerification.ts";
+import {
+  CATEGORY_CONFIDENCE_THRESHOLD,
+  HAZARDOUS_WASTE_CATEGORIES,
+  WASTE_CATEGORIES,
+  aggregateCategories,
+  aggregateWasteSize
+} from "../_shared/modelOutput.ts";
+import { getVisionProvider } from "../_shared/visionModels.ts";
+import { findSimilarReports, perceptualHash, toDuplicateWarning } from "../_shared/duplicateDetection.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  });
+
+// Photos a report can have
+const MAX_REPORT_IMAGES = 5;
+
+interface SubmittedPhoto {
+  imageUrl: string;
+  thumbnailUrl?: string | null;
+  // Capture source and EXIF of this photo
+  deviceInfo?: VerificationDeviceInfo | null;
+}
+
+// Removes a report whose photos or verification couldn't be stored; its image
+// rows go with it
+const discardReport = async (admin: SupabaseClient, reportId: string) => {
+  const { error } = await admin.from('waste_reports').delete().eq('id', reportId);
+  if (error) {
+    console.error('Error discarding incomplete report:', error);
+  }
+};
+
+// Creates a waste report only after each stored photo passes verification here.
+// The waste size (and so the tokens paid on approval) comes from these checks,
+// never from the client. The reporter may adjust the detected categories, but
+// can't drop a hazardous one the model is confident about.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+    const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Identify the reporter from their own session
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Please login to submit a report' }, 401);
+    }
+
+    const body = await req.json();
+    const { title, description, location, geoLocation } = body;
+    // Categories the reporter confirmed; null when they weren't reviewed
+    const confirmedCategories: string[] | null = Array.isArray(body.categories) ? body.categories : null;
+
+    // Older clients send a single photo at the top level
+    const photos: SubmittedPhoto[] = Array.isArray(body.images)
+      ? body.images
+      : body.imageUrl
+      ? [{ imageUrl: body.imageUrl, thumbnailUrl: body.thumbnailUrl, deviceInfo: body.deviceInfo }]
+      : [];
+
+    if (!title?.trim() || !location?.trim()) {
+      return jsonResponse({ error: 'A title and location are required' }, 400);
+    }
+
+    if (photos.length === 0 || photos.some(photo => !photo?.imageUrl)) {
+      return jsonResponse({ error: 'A photo of the waste is required' }, 400);
+    }
+
+    if (photos.length > MAX_REPORT_IMAGES) {
+      return jsonResponse({ error: `A report can have at most ${MAX_REPORT_IMAGES} photos` }, 400);
+    }
+
+    if (confirmedCategories?.some(category => !(WASTE_CATEGORIES as readonly string[]).includes(category))) {
+      return jsonResponse({ error: 'Unknown waste category' }, 400);
+    }
+
+    // Report photos are uploaded to the reporter's own folder
+    const userFolder = `${SUPABASE_URL}/storage/v1/object/public/waste-images/${user.id}/`;
+    if (photos.some(photo => !photo.imageUrl.startsWith(userFolder) || (photo.thumbnailUrl && !photo.thumbnailUrl.startsWith(userFolder)))) {
+      return jsonResponse({ error: 'The photo must be uploaded to your own folder' }, 400);
+    }
+
+    // Every photo has to pass on its own; one at a time to go easy on the vision API
+    const provider = getVisionProvider();
+    const checked = [];
+
+    for (const [index, photo] of photos.entries()) {
+      const image = await fetchStoredImage(photo.imageUrl);
+      const { verification, authenticity, model, rawResponse } = await verifyWasteImage(
+        provider,
+        image,
+        geoLocation || null,
+        photo.deviceInfo || null
+      );
+
+      const label = photos.length > 1 ? `Photo ${index + 1}: ` : '';
+
+      if (verification.inconclusive) {
+        return jsonResponse({
+          error: `${label}The image could not be verified right now. Please try again or use a different photo.`,
+          verification,
+          imageIndex: index
+        }, 422);
+      }
+
+      if (!verification.isAuthenticPhoto || !verification.isWaste) {
+        return jsonResponse({
+          error: label + (!verification.isAuthenticPhoto
+            ? verification.reason || 'The image does not appear to be a real photo taken by you'
+            : 'The image was not verified as waste'),
+          verification,
+          imageIndex: index
+        }, 422);
+      }
+
+      let imageHash: string | null = null;
+      try {
+        imageHash = await perceptualHash(image.bytes);
+      } catch (error) {
+        // Unsupported formats can still be matched by location
+        console.error('Could not hash image:', error);
+      }
+
+      checked.push({ photo, verification, reviewNotes: authenticity.reviewNotes, model, rawResponse, imageHash });
+    }
+
+    // Every verified photo shows waste, so there is always a size
+    const wasteSize = aggregateWasteSize(checked.map(c => c.verification.wasteSize))!;
+    const cover = checked[0];
+
+    const detected = aggregateCategories(checked.map(c => c.verification.categories))
+      .filter(({ confidence }) => confidence >= CATEGORY_CONFIDENCE_THRESHOLD)
+      .map(({ category }) => category);
+    const wasteCategories = [...new Set([
+      ...(confirmedCategories ?? detected),
+      ...detected.filter(category => HAZARDOUS_WASTE_CATEGORIES.includes(category))
+    ])];
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const coordinates = geoLocation?.latitude != null && geoLocation?.longitude != null
+      ? { latitude: Number(geoLocation.latitude), longitude: Number(geoLocation.longitude) }
+      : null;
+
+    // Flag the closest match for admins to review; the report is still created.
+    // Every photo is checked, not just the cover.
+    const similar = await findSimilarReports(admin, checked.map(c => c.imageHash), coordinates);
+
+    const { data: report, error: insertError } = await admin
+      .from('waste_reports')
+      .insert({
+        user_id: user.id,
+        title: title.trim(),
+        description: description || null,
+        location: location.trim(),
+        waste_size: wasteSize,
+        waste_categories: wasteCategories,
+        image_url: cover.photo.imageUrl,
+        thumbnail_url: cover.photo.thumbnailUrl || null,
+        image_hash: cover.imageHash,
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        location_accuracy: coordinates && typeof geoLocation.accuracy === 'number' ? Math.max(0, geoLocation.accuracy) : null,
+        geocoder_source: coordinates && geoLocation.address ? geoLocation.source || null : null,
+        suspected_duplicate_of: similar[0]?.id ?? null,
+        status: 'pending' // Tokens are awarded once an admin approves the report
+      })
+      .select('id, waste_size, waste_categories, hazardous, status')
+      .single();
+
+    if (insertError) {
+      throw new Error(`Could not save report: ${insertError.message}`);
+    }
+
+    const { data: images, error: imagesError } = await admin
+      .from('waste_report_images')
+      .insert(checked.map((c, position) => ({
+        report_id: report.id,
+        position,
+        image_url: c.photo.imageUrl,
+        thumbnail_url: c.photo.thumbnailUrl || null,
+        image_hash: c.imageHash,
+        waste_size: c.verification.wasteSize
+      })))
+      .select('id, position');
+
+    if (imagesError) {
+      // Don't leave a report in the moderation queue without its photos
+      console.error('Error saving report images:', imagesError);
+      await discardReport(admin, report.id);
+      throw new Error(`Could not save report images: ${imagesError.message}`);
+    }
+
+    // Keep the results the report was accepted with for moderators
+    const { error: verificationError } = await admin
+      .from('waste_report_verifications')
+      .insert(checked.map((c, position) => ({
+        report_id: report.id,
+        image_id: images?.find(image => image.position === position)?.id ?? null,
+        source: 'submission',
+        is_waste: c.verification.isWaste,
+        is_authentic_photo: c.verification.isAuthenticPhoto,
+        confidence: Math.round(c.verification.confidence),
+        waste_size: c.verification.wasteSize,
+        categories: c.verification.categories,
+        review_notes: c.reviewNotes,
+        reason: c.verification.reason,
+        description: c.verification.description,
+        raw_response: c.rawResponse,
+        model: c.model,
+        created_by: user.id
+      })));
+
+    if (verificationError) {
+      // Moderators rely on the verification the report was accepted with
+      console.error('Error saving verification:', verificationError);
+      await discardReport(admin, report.id);
+      throw new Error(`Could not save verification: ${verificationError.message}`);
+    }
+
+    return jsonResponse({
+      report,
+      verifications: checked.map(c => c.verification),
+      duplicates: similar.map(toDuplicateWarning)
+    });
+  } catch (error) {
+    console.error('Error in submit-waste-report function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,232 @@
+-- Event participation: sign-ups, capacity limits and waitlists for collection events.
+-- collection_events.participants is no longer edited by hand; it is kept in sync
+-- with the number of registered (not waitlisted) sign-ups by a trigger.
+
+ALTER TABLE public.collection_events
+  ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity IS NULL OR capacity > 0);
+
+COMMENT ON COLUMN public.collection_events.capacity IS 'Maximum number of registered participants, NULL for unlimited';
+
+CREATE TABLE IF NOT EXISTS public.event_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID REFERENCES public.collection_events(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status TEXT DEFAULT 'registered' NOT NULL CHECK (status IN ('registered', 'waitlisted')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT unique_event_participant UNIQUE (event_id, user_id)
+);
+
+COMMENT ON TABLE public.event_participants IS 'Users signed up for a collection event, in sign-up order';
+
+CREATE INDEX IF NOT EXISTS event_participants_event_status_idx
+  ON public.event_participants (event_id, status, created_at);
+
+ALTER TABLE public.event_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own event sign-ups"
+  ON public.event_participants
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all event sign-ups"
+  ON public.event_participants
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- Sign-ups are only written through the functions below.
+
+-- Keep collection_events.participants equal to the registered sign-up count
+CREATE OR REPLACE FUNCTION public.sync_event_participant_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_event_id := OLD.event_id;
+  ELSE
+    v_event_id := NEW.event_id;
+  END IF;
+
+  UPDATE collection_events
+  SET participants = (
+    SELECT count(*)
+    FROM event_participants
+    WHERE event_id = v_event_id
+    AND status = 'registered'
+  )
+  WHERE id = v_event_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER event_participants_sync_count
+  AFTER INSERT OR UPDATE OR DELETE ON public.event_participants
+  FOR EACH ROW EXECUTE FUNCTION public.sync_event_participant_count();
+
+-- Move waitlisted users into free seats, oldest sign-up first
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(p_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_free INTEGER;
+  v_promoted INTEGER;
+BEGIN
+  SELECT capacity INTO v_capacity FROM collection_events WHERE id = p_event_id;
+
+  IF v_capacity IS NULL THEN
+    v_free := NULL;
+  ELSE
+    SELECT v_capacity - count(*) INTO v_free
+    FROM event_participants
+    WHERE event_id = p_event_id
+    AND status = 'registered';
+
+    IF v_free <= 0 THEN
+      RETURN 0;
+    END IF;
+  END IF;
+
+  UPDATE event_participants
+  SET status = 'registered'
+  WHERE id IN (
+    SELECT id
+    FROM event_participants
+    WHERE event_id = p_event_id
+    AND status = 'waitlisted'
+    ORDER BY created_at
+    LIMIT v_free
+  );
+
+  GET DIAGNOSTICS v_promoted = ROW_COUNT;
+  RETURN v_promoted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_event_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sign the current user up for an event. Returns 'registered' or 'waitlisted'.
+CREATE OR REPLACE FUNCTION public.join_collection_event(p_event_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_event collection_events%ROWTYPE;
+  v_existing TEXT;
+  v_registered INTEGER;
+  v_status TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to join an event';
+  END IF;
+
+  -- Lock the event so concurrent sign-ups cannot exceed capacity
+  SELECT * INTO v_event FROM collection_events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.status <> 'active' THEN
+    RAISE EXCEPTION 'This event is no longer accepting participants';
+  END IF;
+
+  SELECT status INTO v_existing
+  FROM event_participants
+  WHERE event_id = p_event_id
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    RETURN v_existing;
+  END IF;
+
+  SELECT count(*) INTO v_registered
+  FROM event_participants
+  WHERE event_id = p_event_id
+  AND status = 'registered';
+
+  IF v_event.capacity IS NOT NULL AND v_registered >= v_event.capacity THEN
+    v_status := 'waitlisted';
+  ELSE
+    v_status := 'registered';
+  END IF;
+
+  INSERT INTO event_participants (event_id, user_id, status)
+  VALUES (p_event_id, v_user_id, v_status);
+
+  RETURN v_status;
+END;
+$$;
+
+-- Remove the current user from an event or its waitlist
+CREATE OR REPLACE FUNCTION public.leave_collection_event(p_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_status TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to leave an event';
+  END IF;
+
+  PERFORM 1 FROM collection_events WHERE id = p_event_id FOR UPDATE;
+
+  DELETE FROM event_participants
+  WHERE event_id = p_event_id
+  AND user_id = v_user_id
+  RETURNING status INTO v_status;
+
+  IF v_status IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_status = 'registered' THEN
+    PERFORM promote_event_waitlist(p_event_id);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Raising (or removing) an event's capacity frees seats for the waitlist
+CREATE OR REPLACE FUNCTION public.handle_event_capacity_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.capacity IS DISTINCT FROM OLD.capacity THEN
+    PERFORM promote_event_waitlist(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER collection_events_capacity_change
+  AFTER UPDATE OF capacity ON public.collection_events
+  FOR EACH ROW EXECUTE FUNCTION public.handle_event_capacity_change();
+
+-- Replace the hand-entered counts with the real ones
+UPDATE public.collection_events e
+SET participants = (
+  SELECT count(*)
+  FROM public.event_participants p
+  WHERE p.event_id = e.id
+  AND p.status = 'registered'
+);
@@ -0,0 +1,217 @@
+-- Collection queue for individual waste reports.
+-- Report lifecycle: reported -> claimed (locked to one collector for a time window) -> collected.
+-- Claims that run out without a collection go back to 'reported'.
+
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS claimed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS claim_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS collected_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS collected_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS after_image_url TEXT,
+  ADD COLUMN IF NOT EXISTS cleanup_comparison JSONB,
+  ADD COLUMN IF NOT EXISTS cleanup_verified_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.waste_reports.cleanup_comparison IS 'Before/after comparison the collection was accepted with, recorded by the complete-waste-collection function';
+COMMENT ON COLUMN public.waste_reports.cleanup_verified_at IS 'When a passing cleanup comparison was recorded; collectors are only paid once this is set';
+
+-- 'approved' was the auto-approved state for new reports; it now means open for collection
+UPDATE public.waste_reports SET status = 'reported' WHERE status IN ('approved', 'in_progress');
+UPDATE public.waste_reports SET status = 'collected' WHERE status = 'completed';
+
+ALTER TABLE public.waste_reports ALTER COLUMN status SET DEFAULT 'reported';
+
+CREATE INDEX IF NOT EXISTS waste_reports_status_created_idx
+  ON public.waste_reports (status, created_at DESC);
+
+CREATE POLICY "Authenticated users can view reports in the collection queue"
+  ON public.waste_reports
+  FOR SELECT
+  TO authenticated
+  USING (status IN ('reported', 'claimed', 'collected'));
+
+-- Put claims whose window has passed back into the pool
+CREATE OR REPLACE FUNCTION public.release_expired_report_claims()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_released INTEGER;
+BEGIN
+  UPDATE waste_reports
+  SET status = 'reported',
+      claimed_by = NULL,
+      claimed_at = NULL,
+      claim_expires_at = NULL,
+      updated_at = now()
+  WHERE status = 'claimed'
+  AND claim_expires_at <= now();
+
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+  RETURN v_released;
+END;
+$$;
+
+-- Lock a report to the current user for p_hours. Returns when the claim expires.
+CREATE OR REPLACE FUNCTION public.claim_waste_report(p_report_id UUID, p_hours INTEGER DEFAULT 4)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_report waste_reports%ROWTYPE;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to claim a report';
+  END IF;
+
+  IF p_hours < 1 OR p_hours > 24 THEN
+    RAISE EXCEPTION 'Claims must last between 1 and 24 hours';
+  END IF;
+
+  SELECT * INTO v_report FROM waste_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF v_report.user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot claim your own report';
+  END IF;
+
+  IF v_report.status = 'claimed' AND v_report.claim_expires_at > now() THEN
+    IF v_report.claimed_by = v_user_id THEN
+      RETURN v_report.claim_expires_at;
+    END IF;
+    RAISE EXCEPTION 'This report has already been claimed by another collector';
+  END IF;
+
+  IF v_report.status NOT IN ('reported', 'claimed') THEN
+    RAISE EXCEPTION 'This report is not available for collection';
+  END IF;
+
+  v_expires_at := now() + make_interval(hours => p_hours);
+
+  UPDATE waste_reports
+  SET status = 'claimed',
+      claimed_by = v_user_id,
+      claimed_at = now(),
+      claim_expires_at = v_expires_at,
+      updated_at = now()
+  WHERE id = p_report_id;
+
+  RETURN v_expires_at;
+END;
+$$;
+
+-- Give up the current user's claim on a report
+CREATE OR REPLACE FUNCTION public.release_waste_report_claim(p_report_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE waste_reports
+  SET status = 'reported',
+      claimed_by = NULL,
+      claimed_at = NULL,
+      claim_expires_at = NULL,
+      updated_at = now()
+  WHERE id = p_report_id
+  AND status = 'claimed'
+  AND claimed_by = auth.uid();
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Mark a claimed report as collected, with the "after" photo as evidence.
+-- Only the complete-waste-collection edge function calls this, with the
+-- before/after comparison the photo passed.
+CREATE OR REPLACE FUNCTION public.complete_waste_report_collection(
+  p_report_id UUID,
+  p_collector_id UUID,
+  p_after_image_url TEXT,
+  p_comparison JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report waste_reports%ROWTYPE;
+BEGIN
+  IF p_after_image_url IS NULL OR length(trim(p_after_image_url)) = 0 THEN
+    RAISE EXCEPTION 'An after photo is required';
+  END IF;
+
+  IF (p_comparison->>'passed')::BOOLEAN IS NOT TRUE THEN
+    RAISE EXCEPTION 'The cleanup has not passed verification';
+  END IF;
+
+  SELECT * INTO v_report FROM waste_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF v_report.status <> 'claimed' OR v_report.claimed_by IS DISTINCT FROM p_collector_id THEN
+    RAISE EXCEPTION 'You do not hold a claim on this report';
+  END IF;
+
+  IF v_report.claim_expires_at <= now() THEN
+    RAISE EXCEPTION 'Your claim on this report has expired';
+  END IF;
+
+  UPDATE waste_reports
+  SET status = 'collected',
+      collected_by = p_collector_id,
+      collected_at = now(),
+      after_image_url = p_after_image_url,
+      cleanup_comparison = p_comparison,
+      cleanup_verified_at = now(),
+      updated_at = now()
+  WHERE id = p_report_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_waste_report_collection(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- The comparison result is only ever written with the service role, so users
+-- (admins included) can't mark a cleanup as verified themselves
+CREATE OR REPLACE FUNCTION public.protect_cleanup_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role requests have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.cleanup_comparison IS DISTINCT FROM OLD.cleanup_comparison
+    OR NEW.cleanup_verified_at IS DISTINCT FROM OLD.cleanup_verified_at
+    OR NEW.collected_by IS DISTINCT FROM OLD.collected_by THEN
+    RAISE EXCEPTION 'Cleanup verification can only be recorded by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_cleanup_verification ON public.waste_reports;
+CREATE TRIGGER protect_cleanup_verification
+  BEFORE UPDATE ON public.waste_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_cleanup_verification();
@@ -0,0 +1,290 @@
+-- Atomic token ledger.
+-- Every balance change goes through post_token_transaction(), which appends the
+-- token_transactions row and updates user_tokens in one transaction. Clients can
+-- no longer write either table directly; they call the award/redeem functions.
+
+ALTER TABLE public.token_transactions
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+-- Keys are scoped to the user, so one user's key can never match another's entry
+CREATE UNIQUE INDEX IF NOT EXISTS token_transactions_idempotency_key_idx
+  ON public.token_transactions (user_id, idempotency_key);
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_tokens_user_id_idx
+  ON public.user_tokens (user_id);
+
+ALTER TABLE public.user_tokens
+  ADD CONSTRAINT user_tokens_balance_non_negative CHECK (balance >= 0);
+
+-- Level thresholds, shared by every ledger write
+CREATE OR REPLACE FUNCTION public.token_level_for_balance(p_balance INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_balance >= 500 THEN 5
+    WHEN p_balance >= 300 THEN 4
+    WHEN p_balance >= 150 THEN 3
+    WHEN p_balance >= 50 THEN 2
+    ELSE 1
+  END;
+$$;
+
+-- Append a ledger entry and apply it to the user's balance.
+-- Re-posting an idempotency key for the same user returns the original entry
+-- without changing the balance.
+CREATE OR REPLACE FUNCTION public.post_token_transaction(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_description TEXT,
+  p_idempotency_key TEXT
+)
+RETURNS public.token_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_delta INTEGER;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  IF p_transaction_type = 'earned' THEN
+    v_delta := p_amount;
+  ELSIF p_transaction_type = 'spent' THEN
+    v_delta := -p_amount;
+  ELSE
+    RAISE EXCEPTION 'Unknown transaction type: %', p_transaction_type;
+  END IF;
+
+  IF p_idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'An idempotency key is required';
+  END IF;
+
+  -- Serialise all ledger writes for this user on their balance row
+  INSERT INTO user_tokens (user_id, balance, level)
+  VALUES (p_user_id, 0, 1)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance INTO v_balance FROM user_tokens WHERE user_id = p_user_id FOR UPDATE;
+
+  SELECT * INTO v_transaction
+  FROM token_transactions
+  WHERE user_id = p_user_id
+  AND idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN v_transaction;
+  END IF;
+
+  IF v_balance + v_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient token balance: % available, % required', v_balance, p_amount;
+  END IF;
+
+  INSERT INTO token_transactions (user_id, amount, description, transaction_type, source_type, source_id, idempotency_key)
+  VALUES (p_user_id, p_amount, p_description, p_transaction_type, p_source_type, p_source_id, p_idempotency_key)
+  RETURNING * INTO v_transaction;
+
+  -- Spending never drops a user's level
+  UPDATE user_tokens
+  SET balance = v_balance + v_delta,
+      level = GREATEST(level, token_level_for_balance(v_balance + v_delta)),
+      updated_at = now()
+  WHERE user_id = p_user_id;
+
+  RETURN v_transaction;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_token_transaction(UUID, INTEGER, TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Token amounts by waste size (mirrored in src/utils/rewardUtils.ts for display)
+CREATE OR REPLACE FUNCTION public.report_tokens_for_waste_size(p_waste_size TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_waste_size
+    WHEN 'small' THEN 5
+    WHEN 'medium' THEN 15
+    WHEN 'large' THEN 30
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.collection_tokens_for_waste_size(p_waste_size TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_waste_size
+    WHEN 'small' THEN 10
+    WHEN 'medium' THEN 25
+    WHEN 'large' THEN 50
+    ELSE 0
+  END;
+$$;
+
+-- Pay the reporter for one of their accepted reports. Returns the tokens awarded (0 if already paid).
+CREATE OR REPLACE FUNCTION public.award_report_tokens(p_report_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report waste_reports%ROWTYPE;
+  v_amount INTEGER;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_report FROM waste_reports WHERE id = p_report_id;
+
+  IF NOT FOUND OR v_report.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF v_report.status NOT IN ('reported', 'claimed', 'collected') THEN
+    RAISE EXCEPTION 'This report has not been accepted';
+  END IF;
+
+  v_amount := report_tokens_for_waste_size(v_report.waste_size);
+  IF v_amount = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM token_transactions WHERE idempotency_key = 'waste_report:' || p_report_id) THEN
+    RETURN 0;
+  END IF;
+
+  v_transaction := post_token_transaction(
+    v_report.user_id,
+    v_amount,
+    'earned',
+    'waste_report',
+    p_report_id,
+    'Waste report: ' || v_report.title,
+    'waste_report:' || p_report_id
+  );
+
+  RETURN v_transaction.amount;
+END;
+$$;
+
+-- Pay the collector for a verified cleanup. Returns the tokens awarded (0 if already paid).
+-- Called by the complete-waste-collection edge function after it records the collection.
+CREATE OR REPLACE FUNCTION public.award_collection_tokens(p_report_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report waste_reports%ROWTYPE;
+  v_amount INTEGER;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_report FROM waste_reports WHERE id = p_report_id;
+
+  IF NOT FOUND OR v_report.collected_by IS NULL OR v_report.status <> 'collected' THEN
+    RAISE EXCEPTION 'This report has not been collected';
+  END IF;
+
+  -- Recorded by complete-waste-collection with the service role, never by a client
+  IF v_report.cleanup_verified_at IS NULL OR (v_report.cleanup_comparison->>'passed')::BOOLEAN IS NOT TRUE THEN
+    RAISE EXCEPTION 'This cleanup has not passed verification';
+  END IF;
+
+  v_amount := collection_tokens_for_waste_size(v_report.waste_size);
+  IF v_amount = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM token_transactions WHERE idempotency_key = 'waste_collection:' || p_report_id) THEN
+    RETURN 0;
+  END IF;
+
+  v_transaction := post_token_transaction(
+    v_report.collected_by,
+    v_amount,
+    'earned',
+    'waste_collection',
+    p_report_id,
+    'Waste collection: ' || v_report.title,
+    'waste_collection:' || p_report_id
+  );
+
+  RETURN v_transaction.amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_collection_tokens(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Redeem a reward for the current user. Returns the redemption id.
+-- Retrying with the same idempotency key returns the first redemption instead of charging twice.
+CREATE OR REPLACE FUNCTION public.redeem_reward(p_reward_id UUID, p_idempotency_key TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward rewards%ROWTYPE;
+  v_key TEXT := 'reward_redemption:' || p_idempotency_key;
+  v_redemption_id UUID;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to redeem rewards';
+  END IF;
+
+  SELECT source_id INTO v_redemption_id
+  FROM token_transactions
+  WHERE idempotency_key = v_key
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    RETURN v_redemption_id;
+  END IF;
+
+  SELECT * INTO v_reward FROM rewards WHERE id = p_reward_id;
+
+  IF NOT FOUND OR v_reward.available IS FALSE THEN
+    RAISE EXCEPTION 'This reward is not available';
+  END IF;
+
+  INSERT INTO redeemed_rewards (user_id, reward_id, status)
+  VALUES (v_user_id, p_reward_id, 'pending')
+  RETURNING id INTO v_redemption_id;
+
+  -- Raises on overdraft, which rolls back the redemption as well
+  v_transaction := post_token_transaction(
+    v_user_id,
+    v_reward.token_cost,
+    'spent',
+    'reward_redemption',
+    v_redemption_id,
+    'Redeemed: ' || v_reward.title,
+    v_key
+  );
+
+  -- Keys are per user, so an entry for another redemption means this one was never charged
+  IF v_transaction.source_id IS DISTINCT FROM v_redemption_id THEN
+    RAISE EXCEPTION 'This redemption key has already been used';
+  END IF;
+
+  RETURN v_redemption_id;
+END;
+$$;
+
+-- Balances and the ledger are only written through the functions above
+REVOKE INSERT, UPDATE, DELETE ON public.token_transactions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.user_tokens FROM anon, authenticated;
+REVOKE INSERT ON public.redeemed_rewards FROM anon, authenticated;
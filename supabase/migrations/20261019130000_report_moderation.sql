@@ -0,0 +1,152 @@
+-- Moderation queue for waste reports.
+-- New reports start as 'pending'. An admin approves them into the collection queue
+-- ('reported'), which pays the reporter, or rejects them with a reason, which takes
+-- back any tokens already credited for the report.
+
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS moderation_reason TEXT;
+
+ALTER TABLE public.waste_reports ALTER COLUMN status SET DEFAULT 'pending';
+
+-- Credits paid before the ledger have no source_id. Link each one to its report
+-- when the reporter has exactly one report and one such credit with that title;
+-- ambiguous ones stay unlinked and are never reversed automatically.
+UPDATE public.token_transactions t
+SET source_id = r.id
+FROM public.waste_reports r
+WHERE t.source_id IS NULL
+AND t.source_type = 'waste_report'
+AND t.transaction_type = 'earned'
+AND r.user_id = t.user_id
+AND t.description = 'Waste report: ' || r.title
+AND (
+  SELECT count(*) FROM public.waste_reports other
+  WHERE other.user_id = r.user_id
+  AND other.title = r.title
+) = 1
+AND (
+  SELECT count(*) FROM public.token_transactions other
+  WHERE other.user_id = t.user_id
+  AND other.source_id IS NULL
+  AND other.source_type = 'waste_report'
+  AND other.transaction_type = 'earned'
+  AND other.description = t.description
+) = 1;
+
+-- Reporters are now paid on approval only
+DROP FUNCTION IF EXISTS public.award_report_tokens(UUID);
+
+-- Approve or reject a report. Returns the token change applied to the reporter.
+CREATE OR REPLACE FUNCTION public.moderate_waste_report(p_report_id UUID, p_decision TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_report waste_reports%ROWTYPE;
+  v_amount INTEGER;
+  v_balance INTEGER;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can moderate reports';
+  END IF;
+
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Decision must be approve or reject';
+  END IF;
+
+  IF p_decision = 'reject' AND (p_reason IS NULL OR length(trim(p_reason)) = 0) THEN
+    RAISE EXCEPTION 'A reason is required to reject a report';
+  END IF;
+
+  SELECT * INTO v_report FROM waste_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF p_decision = 'approve' THEN
+    IF v_report.status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending reports can be approved';
+    END IF;
+
+    UPDATE waste_reports
+    SET status = 'reported',
+        moderated_by = v_admin_id,
+        moderated_at = now(),
+        moderation_reason = NULLIF(trim(p_reason), ''),
+        updated_at = now()
+    WHERE id = p_report_id;
+
+    v_amount := report_tokens_for_waste_size(v_report.waste_size);
+    IF v_amount = 0 THEN
+      RETURN 0;
+    END IF;
+
+    v_transaction := post_token_transaction(
+      v_report.user_id,
+      v_amount,
+      'earned',
+      'waste_report',
+      p_report_id,
+      'Waste report: ' || v_report.title,
+      'waste_report:' || p_report_id
+    );
+
+    RETURN v_transaction.amount;
+  END IF;
+
+  -- Rejection: pending reports, or open ones that were auto-approved before moderation existed
+  IF v_report.status NOT IN ('pending', 'reported') THEN
+    RAISE EXCEPTION 'Only pending or open reports can be rejected';
+  END IF;
+
+  UPDATE waste_reports
+  SET status = 'rejected',
+      moderated_by = v_admin_id,
+      moderated_at = now(),
+      moderation_reason = trim(p_reason),
+      updated_at = now()
+  WHERE id = p_report_id;
+
+  -- Find any credit already paid for this report
+  SELECT amount INTO v_amount
+  FROM token_transactions
+  WHERE user_id = v_report.user_id
+  AND transaction_type = 'earned'
+  AND source_type = 'waste_report'
+  AND source_id = p_report_id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_amount IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- Take back what is left if the tokens were already spent. The row stays
+  -- locked so a spend can't lower the balance before the reversal is posted.
+  SELECT balance INTO v_balance FROM user_tokens WHERE user_id = v_report.user_id FOR UPDATE;
+  v_amount := LEAST(v_amount, COALESCE(v_balance, 0));
+
+  IF v_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_transaction := post_token_transaction(
+    v_report.user_id,
+    v_amount,
+    'spent',
+    'waste_report_reversal',
+    p_report_id,
+    'Report rejected: ' || v_report.title,
+    'waste_report_reversal:' || p_report_id
+  );
+
+  RETURN -v_transaction.amount;
+END;
+$$;
@@ -0,0 +1,59 @@
+-- AI verification results for waste reports.
+-- One row per verification run, so a report keeps the result it was submitted
+-- with alongside any later re-runs by admins.
+
+CREATE TABLE IF NOT EXISTS public.waste_report_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.waste_reports(id) ON DELETE CASCADE NOT NULL,
+  source TEXT DEFAULT 'submission' NOT NULL CHECK (source IN ('submission', 'rerun')),
+  is_waste BOOLEAN NOT NULL,
+  is_authentic_photo BOOLEAN,
+  confidence INTEGER CHECK (confidence BETWEEN 0 AND 100),
+  waste_size TEXT,
+  reason TEXT,
+  description TEXT,
+  raw_response TEXT,
+  model TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.waste_report_verifications IS 'AI image verification results per waste report';
+
+CREATE INDEX IF NOT EXISTS waste_report_verifications_report_idx
+  ON public.waste_report_verifications (report_id, created_at DESC);
+
+ALTER TABLE public.waste_report_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters can store the verification for their own reports"
+  ON public.waste_report_verifications
+  FOR INSERT
+  WITH CHECK (
+    source = 'submission'
+    AND EXISTS (
+      SELECT 1 FROM public.waste_reports r
+      WHERE r.id = report_id
+      AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can store verification re-runs"
+  ON public.waste_report_verifications
+  FOR INSERT
+  WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Reporters can view verifications of their own reports"
+  ON public.waste_report_verifications
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.waste_reports r
+      WHERE r.id = report_id
+      AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all verifications"
+  ON public.waste_report_verifications
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
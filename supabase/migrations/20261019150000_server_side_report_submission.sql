@@ -0,0 +1,45 @@
+-- Reports are created by the submit-waste-report edge function, which verifies
+-- the stored image and sets the waste size itself. Clients can no longer insert
+-- reports directly, change the fields that decide what a report pays, or move a
+-- report past moderation.
+
+REVOKE INSERT ON public.waste_reports FROM anon, authenticated;
+
+-- The edge function stores the submission verification with the service role
+DROP POLICY IF EXISTS "Reporters can store the verification for their own reports" ON public.waste_report_verifications;
+
+CREATE OR REPLACE FUNCTION public.protect_waste_report_trusted_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role requests have no auth.uid(), and the report RPCs (claiming,
+  -- moderating) run as their owner rather than as the calling client
+  IF auth.uid() IS NULL OR current_user NOT IN ('anon', 'authenticated') OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.waste_size IS DISTINCT FROM OLD.waste_size
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    RAISE EXCEPTION 'Waste size, reporter and image can only be set when the report is verified';
+  END IF;
+
+  -- Reporters can't skip the moderation queue or record a decision themselves
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.moderated_by IS DISTINCT FROM OLD.moderated_by
+    OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+    OR NEW.moderation_reason IS DISTINCT FROM OLD.moderation_reason THEN
+    RAISE EXCEPTION 'Report status and moderation can only be changed by admins';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_waste_report_trusted_fields ON public.waste_reports;
+CREATE TRIGGER protect_waste_report_trusted_fields
+  BEFORE UPDATE ON public.waste_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_waste_report_trusted_fields();
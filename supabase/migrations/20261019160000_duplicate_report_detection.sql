@@ -0,0 +1,176 @@
+-- Duplicate report detection.
+-- submit-waste-report stores a perceptual hash (64-bit dHash, hex) of each photo
+-- and the coordinates it was taken at, and flags the closest earlier match in
+-- suspected_duplicate_of. Admins merge duplicates into one canonical report;
+-- merged reports keep a pointer to it in duplicate_of.
+
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS image_hash TEXT CHECK (image_hash ~ '^[0-9a-f]{16}$'),
+  ADD COLUMN IF NOT EXISTS suspected_duplicate_of UUID REFERENCES public.waste_reports(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES public.waste_reports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS waste_reports_suspected_duplicate_idx
+  ON public.waste_reports (suspected_duplicate_of)
+  WHERE suspected_duplicate_of IS NOT NULL;
+
+-- Great-circle distance between two points in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(p_lat1 DOUBLE PRECISION, p_lng1 DOUBLE PRECISION, p_lat2 DOUBLE PRECISION, p_lng2 DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- Number of differing bits between two image hashes
+CREATE OR REPLACE FUNCTION public.image_hash_distance(p_hash1 TEXT, p_hash2 TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT bit_count(('x' || p_hash1)::bit(64) # ('x' || p_hash2)::bit(64))::INTEGER;
+$$;
+
+-- Earlier reports that look like the same photo, or were reported close by
+-- recently. Called by edge functions with the service role.
+CREATE OR REPLACE FUNCTION public.find_similar_waste_reports(
+  p_image_hash TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_exclude_id UUID DEFAULT NULL,
+  p_max_hash_distance INTEGER DEFAULT 6,
+  p_radius_km DOUBLE PRECISION DEFAULT 0.05,
+  p_window INTERVAL DEFAULT INTERVAL '7 days'
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  location TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  hash_distance INTEGER,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      r.id,
+      r.title,
+      r.location,
+      r.status,
+      r.created_at,
+      CASE WHEN p_image_hash IS NOT NULL AND r.image_hash IS NOT NULL
+        THEN image_hash_distance(p_image_hash, r.image_hash) END AS hash_distance,
+      CASE WHEN p_latitude IS NOT NULL AND r.latitude IS NOT NULL
+        THEN distance_km(p_latitude, p_longitude, r.latitude, r.longitude) END AS distance_km
+    FROM waste_reports r
+    WHERE r.status NOT IN ('rejected', 'merged')
+    AND (p_exclude_id IS NULL OR r.id <> p_exclude_id)
+  ) candidates
+  WHERE candidates.hash_distance <= p_max_hash_distance
+  OR (candidates.distance_km <= p_radius_km AND candidates.created_at > now() - p_window)
+  ORDER BY candidates.hash_distance NULLS LAST, candidates.distance_km NULLS LAST
+  LIMIT 5;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_similar_waste_reports(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, UUID, INTEGER, DOUBLE PRECISION, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Merge duplicates into a canonical report. Each duplicate is rejected (taking
+-- back any tokens it earned) and then marked as merged. Returns how many were merged.
+CREATE OR REPLACE FUNCTION public.merge_waste_reports(p_canonical_id UUID, p_duplicate_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_canonical waste_reports%ROWTYPE;
+  v_duplicate_id UUID;
+  v_status TEXT;
+  v_merged INTEGER := 0;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can merge reports';
+  END IF;
+
+  SELECT * INTO v_canonical FROM waste_reports WHERE id = p_canonical_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Canonical report not found';
+  END IF;
+
+  IF v_canonical.status IN ('rejected', 'merged') THEN
+    RAISE EXCEPTION 'A rejected or merged report cannot be the canonical report';
+  END IF;
+
+  FOREACH v_duplicate_id IN ARRAY p_duplicate_ids LOOP
+    CONTINUE WHEN v_duplicate_id = p_canonical_id;
+
+    SELECT status INTO v_status FROM waste_reports WHERE id = v_duplicate_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Report % not found', v_duplicate_id;
+    END IF;
+
+    IF v_status NOT IN ('pending', 'reported') THEN
+      RAISE EXCEPTION 'Only pending or open reports can be merged (report % is %)', v_duplicate_id, v_status;
+    END IF;
+
+    PERFORM moderate_waste_report(v_duplicate_id, 'reject', 'Duplicate of report: ' || v_canonical.title);
+
+    UPDATE waste_reports
+    SET status = 'merged',
+        duplicate_of = p_canonical_id,
+        suspected_duplicate_of = NULL,
+        updated_at = now()
+    WHERE id = v_duplicate_id;
+
+    -- Reports flagged against the merged one now point at the canonical report
+    UPDATE waste_reports
+    SET suspected_duplicate_of = p_canonical_id
+    WHERE suspected_duplicate_of = v_duplicate_id
+    AND id <> p_canonical_id;
+
+    v_merged := v_merged + 1;
+  END LOOP;
+
+  UPDATE waste_reports
+  SET suspected_duplicate_of = NULL
+  WHERE id = p_canonical_id
+  AND suspected_duplicate_of = ANY(p_duplicate_ids);
+
+  RETURN v_merged;
+END;
+$$;
+
+-- Dismiss a duplicate flag that turned out to be a different pile of waste
+CREATE OR REPLACE FUNCTION public.dismiss_duplicate_flag(p_report_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can dismiss duplicate flags';
+  END IF;
+
+  UPDATE waste_reports
+  SET suspected_duplicate_of = NULL,
+      updated_at = now()
+  WHERE id = p_report_id;
+
+  RETURN FOUND;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Coordinates for collection events so they can be shown on the map.
+-- Both are optional; events without them are only listed.
+
+ALTER TABLE public.collection_events
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
@@ -0,0 +1,83 @@
+-- Structured geolocation for waste reports.
+-- latitude/longitude were added for duplicate detection; this adds the GPS
+-- accuracy and where the address came from, a PostGIS point with a spatial
+-- index, and a "reports within N km" query sorted by distance.
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS location_accuracy DOUBLE PRECISION CHECK (location_accuracy >= 0),
+  ADD COLUMN IF NOT EXISTS geocoder_source TEXT;
+
+COMMENT ON COLUMN public.waste_reports.location_accuracy IS 'Reported GPS accuracy in metres';
+COMMENT ON COLUMN public.waste_reports.geocoder_source IS 'Geocoder that resolved the address (e.g. nominatim, google), null when only coordinates are known';
+
+ALTER TABLE public.waste_reports
+  ADD CONSTRAINT waste_reports_latitude_range CHECK (latitude BETWEEN -90 AND 90),
+  ADD CONSTRAINT waste_reports_longitude_range CHECK (longitude BETWEEN -180 AND 180);
+
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS geo_point extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.st_setsrid(extensions.st_makepoint(longitude, latitude), 4326)::extensions.geography
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS waste_reports_geo_point_idx
+  ON public.waste_reports USING GIST (geo_point);
+
+-- Reports within p_radius_km of a point, nearest first. Runs with the caller's
+-- permissions, so it only returns reports they can already see.
+CREATE OR REPLACE FUNCTION public.waste_reports_within_radius(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION,
+  p_statuses TEXT[] DEFAULT ARRAY['reported', 'claimed'],
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  location TEXT,
+  waste_size TEXT,
+  image_url TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  claimed_by UUID,
+  claim_expires_at TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH origin AS (
+    SELECT st_setsrid(st_makepoint(p_longitude, p_latitude), 4326)::geography AS point
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.description,
+    r.location,
+    r.waste_size,
+    r.image_url,
+    r.status,
+    r.created_at,
+    r.user_id,
+    r.claimed_by,
+    r.claim_expires_at,
+    r.latitude,
+    r.longitude,
+    st_distance(r.geo_point, origin.point) / 1000 AS distance_km
+  FROM waste_reports r, origin
+  WHERE r.geo_point IS NOT NULL
+  AND st_dwithin(r.geo_point, origin.point, p_radius_km * 1000)
+  AND r.status = ANY(p_statuses)
+  ORDER BY r.geo_point <-> origin.point
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
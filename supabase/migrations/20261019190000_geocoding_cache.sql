@@ -0,0 +1,48 @@
+-- Shared reverse geocoding cache and outbound rate limit.
+-- Used only by edge functions (service role): results are cached by
+-- coordinates rounded to 4 decimal places (about 11 m), and each provider can
+-- require a minimum gap between calls (Nominatim allows at most one per second).
+
+CREATE TABLE IF NOT EXISTS public.geocode_cache (
+  provider TEXT NOT NULL,
+  lat_key INTEGER NOT NULL,
+  lng_key INTEGER NOT NULL,
+  address TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (provider, lat_key, lng_key)
+);
+
+COMMENT ON TABLE public.geocode_cache IS 'Reverse geocoding results keyed by rounded coordinates (degrees * 10000)';
+
+ALTER TABLE public.geocode_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.geocoder_rate_limits (
+  provider TEXT PRIMARY KEY,
+  last_call_at TIMESTAMP WITH TIME ZONE DEFAULT 'epoch' NOT NULL
+);
+
+ALTER TABLE public.geocoder_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Take the next outbound slot for a provider. Returns false if the previous
+-- call was less than p_min_interval_ms ago.
+CREATE OR REPLACE FUNCTION public.claim_geocoder_slot(p_provider TEXT, p_min_interval_ms INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO geocoder_rate_limits (provider)
+  VALUES (p_provider)
+  ON CONFLICT (provider) DO NOTHING;
+
+  UPDATE geocoder_rate_limits
+  SET last_call_at = clock_timestamp()
+  WHERE provider = p_provider
+  AND last_call_at <= clock_timestamp() - make_interval(secs => p_min_interval_ms / 1000.0);
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_geocoder_slot(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
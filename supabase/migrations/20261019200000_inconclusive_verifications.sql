@@ -0,0 +1,8 @@
+-- Verification runs where the model never gave a valid structured answer.
+-- These are stored as not passing, flagged so moderators can tell them apart
+-- from a real rejection.
+
+ALTER TABLE public.waste_report_verifications
+  ADD COLUMN IF NOT EXISTS inconclusive BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN public.waste_report_verifications.inconclusive IS 'True when the model output failed schema validation on every attempt';
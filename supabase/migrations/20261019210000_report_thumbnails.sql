@@ -0,0 +1,98 @@
+-- Report photos are resized on the device and stored under
+-- <user id>/reports/<sha256>.jpg, with a small thumbnail next to them for lists.
+
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+COMMENT ON COLUMN public.waste_reports.thumbnail_url IS 'Small JPEG of the report photo for lists; null for older reports';
+
+-- The thumbnail is set with the verified image, so it is protected the same way
+CREATE OR REPLACE FUNCTION public.protect_waste_report_trusted_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role requests have no auth.uid(), and the report RPCs (claiming,
+  -- moderating) run as their owner rather than as the calling client
+  IF auth.uid() IS NULL OR current_user NOT IN ('anon', 'authenticated') OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.waste_size IS DISTINCT FROM OLD.waste_size
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url
+    OR NEW.thumbnail_url IS DISTINCT FROM OLD.thumbnail_url THEN
+    RAISE EXCEPTION 'Waste size, reporter and image can only be set when the report is verified';
+  END IF;
+
+  -- Reporters can't skip the moderation queue or record a decision themselves
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.moderated_by IS DISTINCT FROM OLD.moderated_by
+    OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+    OR NEW.moderation_reason IS DISTINCT FROM OLD.moderation_reason THEN
+    RAISE EXCEPTION 'Report status and moderation can only be changed by admins';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Return the thumbnail with nearby reports (the result type changes, so the
+-- function is recreated)
+DROP FUNCTION IF EXISTS public.waste_reports_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], INTEGER);
+
+CREATE FUNCTION public.waste_reports_within_radius(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION,
+  p_statuses TEXT[] DEFAULT ARRAY['reported', 'claimed'],
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  location TEXT,
+  waste_size TEXT,
+  image_url TEXT,
+  thumbnail_url TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  claimed_by UUID,
+  claim_expires_at TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH origin AS (
+    SELECT st_setsrid(st_makepoint(p_longitude, p_latitude), 4326)::geography AS point
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.description,
+    r.location,
+    r.waste_size,
+    r.image_url,
+    r.thumbnail_url,
+    r.status,
+    r.created_at,
+    r.user_id,
+    r.claimed_by,
+    r.claim_expires_at,
+    r.latitude,
+    r.longitude,
+    st_distance(r.geo_point, origin.point) / 1000 AS distance_km
+  FROM waste_reports r, origin
+  WHERE r.geo_point IS NOT NULL
+  AND st_dwithin(r.geo_point, origin.point, p_radius_km * 1000)
+  AND r.status = ANY(p_statuses)
+  ORDER BY r.geo_point <-> origin.point
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
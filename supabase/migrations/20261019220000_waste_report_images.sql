@@ -0,0 +1,105 @@
+-- Several photos per waste report (different angles of a large site). Each
+-- photo is verified on its own by submit-waste-report; the report keeps its
+-- first photo in image_url/thumbnail_url as the cover, and its waste size is
+-- aggregated from the photos.
+
+CREATE TABLE IF NOT EXISTS public.waste_report_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.waste_reports(id) ON DELETE CASCADE NOT NULL,
+  position SMALLINT NOT NULL CHECK (position BETWEEN 0 AND 4),
+  image_url TEXT NOT NULL,
+  thumbnail_url TEXT,
+  image_hash TEXT,
+  -- Size the verification gave this photo; null for photos of older reports
+  waste_size TEXT CHECK (waste_size IN ('small', 'medium', 'large')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (report_id, position)
+);
+
+COMMENT ON TABLE public.waste_report_images IS 'Photos of a waste report in display order; position 0 is the cover';
+
+ALTER TABLE public.waste_report_images ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the report is: the subquery runs under the caller's
+-- waste_reports policies. Rows are only written by the service role.
+CREATE POLICY "Report images are visible with their report"
+  ON public.waste_report_images
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.waste_reports r WHERE r.id = report_id));
+
+-- Existing reports get their single photo as the cover
+INSERT INTO public.waste_report_images (report_id, position, image_url, thumbnail_url, image_hash, waste_size)
+SELECT id, 0, image_url, thumbnail_url, image_hash, waste_size
+FROM public.waste_reports
+WHERE image_url IS NOT NULL
+ON CONFLICT (report_id, position) DO NOTHING;
+
+-- Submission verifications are stored per photo
+ALTER TABLE public.waste_report_verifications
+  ADD COLUMN IF NOT EXISTS image_id UUID REFERENCES public.waste_report_images(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN public.waste_report_verifications.image_id IS 'Photo that was verified; null for runs against the cover before photos were tracked';
+
+CREATE INDEX IF NOT EXISTS waste_report_images_report_idx
+  ON public.waste_report_images (report_id);
+
+-- Duplicate detection compares every photo of a new report with every stored
+-- photo, so a recycled photo is caught whichever position it is in
+DROP FUNCTION IF EXISTS public.find_similar_waste_reports(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, UUID, INTEGER, DOUBLE PRECISION, INTERVAL);
+
+CREATE OR REPLACE FUNCTION public.find_similar_waste_reports(
+  p_image_hashes TEXT[],
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_exclude_id UUID DEFAULT NULL,
+  p_max_hash_distance INTEGER DEFAULT 6,
+  p_radius_km DOUBLE PRECISION DEFAULT 0.05,
+  p_window INTERVAL DEFAULT INTERVAL '7 days'
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  location TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  hash_distance INTEGER,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      r.id,
+      r.title,
+      r.location,
+      r.status,
+      r.created_at,
+      -- Closest pair of any new photo and any photo of this report
+      (
+        SELECT min(image_hash_distance(new_photo.image_hash, stored.image_hash))
+        FROM unnest(p_image_hashes) AS new_photo(image_hash),
+          (
+            SELECT r.image_hash
+            UNION ALL
+            SELECT i.image_hash FROM waste_report_images i WHERE i.report_id = r.id
+          ) AS stored(image_hash)
+        WHERE new_photo.image_hash IS NOT NULL
+        AND stored.image_hash IS NOT NULL
+      ) AS hash_distance,
+      CASE WHEN p_latitude IS NOT NULL AND r.latitude IS NOT NULL
+        THEN distance_km(p_latitude, p_longitude, r.latitude, r.longitude) END AS distance_km
+    FROM waste_reports r
+    WHERE r.status NOT IN ('rejected', 'merged')
+    AND (p_exclude_id IS NULL OR r.id <> p_exclude_id)
+  ) candidates
+  WHERE candidates.hash_distance <= p_max_hash_distance
+  OR (candidates.distance_km <= p_radius_km AND candidates.created_at > now() - p_window)
+  ORDER BY candidates.hash_distance NULLS LAST, candidates.distance_km NULLS LAST
+  LIMIT 5;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_similar_waste_reports(TEXT[], DOUBLE PRECISION, DOUBLE PRECISION, UUID, INTEGER, DOUBLE PRECISION, INTERVAL) FROM PUBLIC, anon, authenticated;
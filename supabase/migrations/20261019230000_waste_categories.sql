@@ -0,0 +1,189 @@
+-- Waste type taxonomy alongside the size. Verification suggests categories
+-- with confidences (stored per verification); the reporter confirms them and
+-- the confirmed list is stored on the report. Hazardous categories keep a
+-- report out of volunteer collection.
+
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS waste_categories TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.waste_reports
+  ADD CONSTRAINT waste_reports_waste_categories_check CHECK (
+    waste_categories <@ ARRAY[
+      'plastic_bottles', 'plastic_bags', 'packaging', 'glass', 'metal', 'paper',
+      'textiles', 'e_waste', 'construction_debris', 'organic', 'bulky',
+      'hazardous', 'medical', 'mixed'
+    ]
+  );
+
+-- Needs special handling: chemicals, batteries, asbestos, needles and the like
+ALTER TABLE public.waste_reports
+  ADD COLUMN IF NOT EXISTS hazardous BOOLEAN GENERATED ALWAYS AS (
+    waste_categories && ARRAY['hazardous', 'medical']
+  ) STORED;
+
+COMMENT ON COLUMN public.waste_reports.waste_categories IS 'Waste types confirmed by the reporter; empty for older reports';
+COMMENT ON COLUMN public.waste_reports.hazardous IS 'Whether any category needs special handling; such reports cannot be claimed';
+
+CREATE INDEX IF NOT EXISTS waste_reports_waste_categories_idx
+  ON public.waste_reports USING GIN (waste_categories);
+
+-- What the model detected, as [{ "category": ..., "confidence": 0-100 }]
+ALTER TABLE public.waste_report_verifications
+  ADD COLUMN IF NOT EXISTS categories JSONB NOT NULL DEFAULT '[]';
+
+-- Categories are set with the verified photos, so they are protected the same way.
+-- That also covers hazardous: it is generated from the categories, can't be
+-- written directly, and can't be read from NEW in a BEFORE trigger.
+CREATE OR REPLACE FUNCTION public.protect_waste_report_trusted_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role requests have no auth.uid(), and the report RPCs (claiming,
+  -- moderating) run as their owner rather than as the calling client
+  IF auth.uid() IS NULL OR current_user NOT IN ('anon', 'authenticated') OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.waste_size IS DISTINCT FROM OLD.waste_size
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url
+    OR NEW.thumbnail_url IS DISTINCT FROM OLD.thumbnail_url
+    OR NEW.waste_categories IS DISTINCT FROM OLD.waste_categories THEN
+    RAISE EXCEPTION 'Waste size, categories, reporter and image can only be set when the report is verified';
+  END IF;
+
+  -- Reporters can't skip the moderation queue or record a decision themselves
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.moderated_by IS DISTINCT FROM OLD.moderated_by
+    OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+    OR NEW.moderation_reason IS DISTINCT FROM OLD.moderation_reason THEN
+    RAISE EXCEPTION 'Report status and moderation can only be changed by admins';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Hazardous reports are left to admins and the local authority
+CREATE OR REPLACE FUNCTION public.claim_waste_report(p_report_id UUID, p_hours INTEGER DEFAULT 4)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_report waste_reports%ROWTYPE;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to claim a report';
+  END IF;
+
+  IF p_hours < 1 OR p_hours > 24 THEN
+    RAISE EXCEPTION 'Claims must last between 1 and 24 hours';
+  END IF;
+
+  SELECT * INTO v_report FROM waste_reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF v_report.user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot claim your own report';
+  END IF;
+
+  IF v_report.hazardous THEN
+    RAISE EXCEPTION 'Hazardous waste needs special handling and cannot be claimed for collection';
+  END IF;
+
+  IF v_report.status = 'claimed' AND v_report.claim_expires_at > now() THEN
+    IF v_report.claimed_by = v_user_id THEN
+      RETURN v_report.claim_expires_at;
+    END IF;
+    RAISE EXCEPTION 'This report has already been claimed by another collector';
+  END IF;
+
+  IF v_report.status NOT IN ('reported', 'claimed') THEN
+    RAISE EXCEPTION 'This report is not available for collection';
+  END IF;
+
+  v_expires_at := now() + make_interval(hours => p_hours);
+
+  UPDATE waste_reports
+  SET status = 'claimed',
+      claimed_by = v_user_id,
+      claimed_at = now(),
+      claim_expires_at = v_expires_at,
+      updated_at = now()
+  WHERE id = p_report_id;
+
+  RETURN v_expires_at;
+END;
+$$;
+
+-- Return the categories with nearby reports (the result type changes, so the
+-- function is recreated)
+DROP FUNCTION IF EXISTS public.waste_reports_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], INTEGER);
+
+CREATE FUNCTION public.waste_reports_within_radius(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION,
+  p_statuses TEXT[] DEFAULT ARRAY['reported', 'claimed'],
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  location TEXT,
+  waste_size TEXT,
+  waste_categories TEXT[],
+  hazardous BOOLEAN,
+  image_url TEXT,
+  thumbnail_url TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  claimed_by UUID,
+  claim_expires_at TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH origin AS (
+    SELECT st_setsrid(st_makepoint(p_longitude, p_latitude), 4326)::geography AS point
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.description,
+    r.location,
+    r.waste_size,
+    r.waste_categories,
+    r.hazardous,
+    r.image_url,
+    r.thumbnail_url,
+    r.status,
+    r.created_at,
+    r.user_id,
+    r.claimed_by,
+    r.claim_expires_at,
+    r.latitude,
+    r.longitude,
+    st_distance(r.geo_point, origin.point) / 1000 AS distance_km
+  FROM waste_reports r, origin
+  WHERE r.geo_point IS NOT NULL
+  AND st_dwithin(r.geo_point, origin.point, p_radius_km * 1000)
+  AND r.status = ANY(p_statuses)
+  ORDER BY r.geo_point <-> origin.point
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
@@ -0,0 +1,195 @@
+-- Fulfillment of redeemed rewards.
+-- Redemption lifecycle: pending -> approved -> shipped -> delivered, or
+-- cancelled before shipping. Delivery details are captured when the reward is
+-- redeemed; every status change is kept with its time, admin and note.
+
+ALTER TABLE public.redeemed_rewards
+  ADD COLUMN IF NOT EXISTS recipient_name TEXT,
+  ADD COLUMN IF NOT EXISTS shipping_address TEXT,
+  ADD COLUMN IF NOT EXISTS contact_phone TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_instructions TEXT,
+  ADD COLUMN IF NOT EXISTS tracking_reference TEXT;
+
+COMMENT ON COLUMN public.redeemed_rewards.shipping_address IS 'Postal address, or an email address for digital rewards; null for redemptions made before delivery details were collected';
+
+ALTER TABLE public.redeemed_rewards
+  ADD CONSTRAINT redeemed_rewards_status_check
+  CHECK (status IN ('pending', 'approved', 'shipped', 'delivered', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS redeemed_rewards_status_created_idx
+  ON public.redeemed_rewards (status, created_at);
+
+CREATE TABLE IF NOT EXISTS public.redemption_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  redemption_id UUID REFERENCES public.redeemed_rewards(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'shipped', 'delivered', 'cancelled')),
+  note TEXT,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS redemption_status_events_redemption_idx
+  ON public.redemption_status_events (redemption_id, created_at);
+
+-- Existing redemptions start their history at the time they were made
+INSERT INTO public.redemption_status_events (redemption_id, status, created_at)
+SELECT id, status, COALESCE(created_at, now())
+FROM public.redeemed_rewards;
+
+ALTER TABLE public.redeemed_rewards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.redemption_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redemptions"
+  ON public.redeemed_rewards
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions"
+  ON public.redeemed_rewards
+  FOR SELECT
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Redemption history is visible with its redemption"
+  ON public.redemption_status_events
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.redeemed_rewards r WHERE r.id = redemption_id));
+
+-- Redemptions and their history are only written through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.redeemed_rewards FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.redemption_status_events FROM anon, authenticated;
+
+-- Redeem a reward for the current user, with where to deliver it. Returns the
+-- redemption id. Retrying with the same idempotency key returns the first
+-- redemption instead of charging twice.
+DROP FUNCTION IF EXISTS public.redeem_reward(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.redeem_reward(
+  p_reward_id UUID,
+  p_idempotency_key TEXT,
+  p_recipient_name TEXT,
+  p_shipping_address TEXT,
+  p_contact_phone TEXT DEFAULT NULL,
+  p_delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward rewards%ROWTYPE;
+  v_key TEXT := 'reward_redemption:' || p_idempotency_key;
+  v_redemption_id UUID;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to redeem rewards';
+  END IF;
+
+  SELECT source_id INTO v_redemption_id
+  FROM token_transactions
+  WHERE idempotency_key = v_key
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    RETURN v_redemption_id;
+  END IF;
+
+  IF length(trim(COALESCE(p_recipient_name, ''))) = 0 OR length(trim(COALESCE(p_shipping_address, ''))) = 0 THEN
+    RAISE EXCEPTION 'A recipient name and delivery address are required';
+  END IF;
+
+  SELECT * INTO v_reward FROM rewards WHERE id = p_reward_id;
+
+  IF NOT FOUND OR v_reward.available IS FALSE THEN
+    RAISE EXCEPTION 'This reward is not available';
+  END IF;
+
+  INSERT INTO redeemed_rewards (
+    user_id, reward_id, status, recipient_name, shipping_address, contact_phone, delivery_instructions
+  )
+  VALUES (
+    v_user_id,
+    p_reward_id,
+    'pending',
+    trim(p_recipient_name),
+    trim(p_shipping_address),
+    NULLIF(trim(p_contact_phone), ''),
+    NULLIF(trim(p_delivery_instructions), '')
+  )
+  RETURNING id INTO v_redemption_id;
+
+  INSERT INTO redemption_status_events (redemption_id, status, changed_by)
+  VALUES (v_redemption_id, 'pending', v_user_id);
+
+  -- Raises on overdraft, which rolls back the redemption as well
+  v_transaction := post_token_transaction(
+    v_user_id,
+    v_reward.token_cost,
+    'spent',
+    'reward_redemption',
+    v_redemption_id,
+    'Redeemed: ' || v_reward.title,
+    v_key
+  );
+
+  -- Keys are per user, so an entry for another redemption means this one was never charged
+  IF v_transaction.source_id IS DISTINCT FROM v_redemption_id THEN
+    RAISE EXCEPTION 'This redemption key has already been used';
+  END IF;
+
+  RETURN v_redemption_id;
+END;
+$$;
+
+-- Move a redemption along its lifecycle. Only admins; returns the new status.
+CREATE OR REPLACE FUNCTION public.update_redemption_status(
+  p_redemption_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_reference TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_redemption redeemed_rewards%ROWTYPE;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can update redemptions';
+  END IF;
+
+  SELECT * INTO v_redemption FROM redeemed_rewards WHERE id = p_redemption_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF NOT (
+    (v_redemption.status = 'pending' AND p_status IN ('approved', 'cancelled'))
+    OR (v_redemption.status = 'approved' AND p_status IN ('shipped', 'cancelled'))
+    OR (v_redemption.status = 'shipped' AND p_status = 'delivered')
+  ) THEN
+    RAISE EXCEPTION 'A % redemption cannot be marked %', v_redemption.status, p_status;
+  END IF;
+
+  IF p_status = 'cancelled' AND length(trim(COALESCE(p_note, ''))) = 0 THEN
+    RAISE EXCEPTION 'A note is required to cancel a redemption';
+  END IF;
+
+  UPDATE redeemed_rewards
+  SET status = p_status,
+      tracking_reference = COALESCE(NULLIF(trim(p_tracking_reference), ''), tracking_reference),
+      updated_at = now()
+  WHERE id = p_redemption_id;
+
+  INSERT INTO redemption_status_events (redemption_id, status, note, changed_by)
+  VALUES (p_redemption_id, p_status, NULLIF(trim(p_note), ''), v_admin_id);
+
+  RETURN p_status;
+END;
+$$;
@@ -0,0 +1,192 @@
+-- Refunds for redemptions that are not fulfilled.
+-- An admin can reject a pending redemption or cancel an approved one; either
+-- way the tokens come back as a 'refund' ledger entry with the same source
+-- (reward_redemption, redemption id) as the original spend.
+
+ALTER TABLE public.redeemed_rewards
+  DROP CONSTRAINT IF EXISTS redeemed_rewards_status_check;
+
+ALTER TABLE public.redeemed_rewards
+  ADD CONSTRAINT redeemed_rewards_status_check
+  CHECK (status IN ('pending', 'approved', 'shipped', 'delivered', 'rejected', 'cancelled'));
+
+ALTER TABLE public.redemption_status_events
+  DROP CONSTRAINT IF EXISTS redemption_status_events_status_check;
+
+ALTER TABLE public.redemption_status_events
+  ADD CONSTRAINT redemption_status_events_status_check
+  CHECK (status IN ('pending', 'approved', 'shipped', 'delivered', 'rejected', 'cancelled'));
+
+-- 'refund' credits the balance like 'earned' but is kept apart so history and
+-- totals can tell returned tokens from earned ones
+CREATE OR REPLACE FUNCTION public.post_token_transaction(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_description TEXT,
+  p_idempotency_key TEXT
+)
+RETURNS public.token_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_delta INTEGER;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  IF p_transaction_type IN ('earned', 'refund') THEN
+    v_delta := p_amount;
+  ELSIF p_transaction_type = 'spent' THEN
+    v_delta := -p_amount;
+  ELSE
+    RAISE EXCEPTION 'Unknown transaction type: %', p_transaction_type;
+  END IF;
+
+  IF p_idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'An idempotency key is required';
+  END IF;
+
+  -- Serialise all ledger writes for this user on their balance row
+  INSERT INTO user_tokens (user_id, balance, level)
+  VALUES (p_user_id, 0, 1)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance INTO v_balance FROM user_tokens WHERE user_id = p_user_id FOR UPDATE;
+
+  SELECT * INTO v_transaction
+  FROM token_transactions
+  WHERE user_id = p_user_id
+  AND idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN v_transaction;
+  END IF;
+
+  IF v_balance + v_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient token balance: % available, % required', v_balance, p_amount;
+  END IF;
+
+  INSERT INTO token_transactions (user_id, amount, description, transaction_type, source_type, source_id, idempotency_key)
+  VALUES (p_user_id, p_amount, p_description, p_transaction_type, p_source_type, p_source_id, p_idempotency_key)
+  RETURNING * INTO v_transaction;
+
+  -- Spending never drops a user's level
+  UPDATE user_tokens
+  SET balance = v_balance + v_delta,
+      level = GREATEST(level, token_level_for_balance(v_balance + v_delta)),
+      updated_at = now()
+  WHERE user_id = p_user_id;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Give back what was spent on a redemption. Returns the tokens refunded (0 if
+-- already refunded, or if the redemption predates the ledger and has no
+-- linked spend).
+CREATE OR REPLACE FUNCTION public.refund_reward_redemption(p_redemption_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_spend token_transactions%ROWTYPE;
+  v_transaction token_transactions%ROWTYPE;
+BEGIN
+  IF EXISTS (SELECT 1 FROM token_transactions WHERE idempotency_key = 'reward_refund:' || p_redemption_id) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_spend
+  FROM token_transactions
+  WHERE transaction_type = 'spent'
+  AND source_type = 'reward_redemption'
+  AND source_id = p_redemption_id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_transaction := post_token_transaction(
+    v_spend.user_id,
+    v_spend.amount,
+    'refund',
+    'reward_redemption',
+    p_redemption_id,
+    'Refunded: ' || regexp_replace(v_spend.description, '^Redeemed: ', ''),
+    'reward_refund:' || p_redemption_id
+  );
+
+  RETURN v_transaction.amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_reward_redemption(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Move a redemption along its lifecycle. Only admins; returns the tokens
+-- refunded, which is non-zero only when a redemption is rejected or cancelled.
+DROP FUNCTION IF EXISTS public.update_redemption_status(UUID, TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.update_redemption_status(
+  p_redemption_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_reference TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_redemption redeemed_rewards%ROWTYPE;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can update redemptions';
+  END IF;
+
+  SELECT * INTO v_redemption FROM redeemed_rewards WHERE id = p_redemption_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF NOT (
+    (v_redemption.status = 'pending' AND p_status IN ('approved', 'rejected'))
+    OR (v_redemption.status = 'approved' AND p_status IN ('shipped', 'cancelled'))
+    OR (v_redemption.status = 'shipped' AND p_status = 'delivered')
+  ) THEN
+    RAISE EXCEPTION 'A % redemption cannot be marked %', v_redemption.status, p_status;
+  END IF;
+
+  IF p_status IN ('rejected', 'cancelled') AND length(trim(COALESCE(p_note, ''))) = 0 THEN
+    RAISE EXCEPTION 'A note is required to % a redemption', CASE p_status WHEN 'rejected' THEN 'reject' ELSE 'cancel' END;
+  END IF;
+
+  UPDATE redeemed_rewards
+  SET status = p_status,
+      tracking_reference = COALESCE(NULLIF(trim(p_tracking_reference), ''), tracking_reference),
+      updated_at = now()
+  WHERE id = p_redemption_id;
+
+  INSERT INTO redemption_status_events (redemption_id, status, note, changed_by)
+  VALUES (p_redemption_id, p_status, NULLIF(trim(p_note), ''), v_admin_id);
+
+  IF p_status IN ('rejected', 'cancelled') THEN
+    RETURN refund_reward_redemption(p_redemption_id);
+  END IF;
+
+  RETURN 0;
+END;
+$$;
@@ -0,0 +1,216 @@
+-- Reward catalog managed by admins.
+-- Rewards are ordered by sort_order and archived rather than deleted, since
+-- redemptions keep pointing at them. A reward can be limited to a stock of
+-- units, a number of redemptions per user and a window of dates; redeem_reward
+-- enforces all three.
+
+ALTER TABLE public.rewards
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS stock_quantity INTEGER,
+  ADD COLUMN IF NOT EXISTS per_user_limit INTEGER,
+  ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+ALTER TABLE public.rewards
+  ADD CONSTRAINT rewards_stock_quantity_check CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+  ADD CONSTRAINT rewards_per_user_limit_check CHECK (per_user_limit IS NULL OR per_user_limit > 0),
+  ADD CONSTRAINT rewards_token_cost_check CHECK (token_cost > 0),
+  ADD CONSTRAINT rewards_dates_check CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+COMMENT ON COLUMN public.rewards.stock_quantity IS 'Units left to redeem; null for unlimited';
+COMMENT ON COLUMN public.rewards.per_user_limit IS 'Redemptions allowed per user, not counting rejected or cancelled ones; null for no limit';
+COMMENT ON COLUMN public.rewards.archived_at IS 'Set when an admin removes the reward from the catalog';
+
+-- Keep the order users saw before, cheapest first
+UPDATE public.rewards r
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (ORDER BY token_cost, created_at) AS position
+  FROM public.rewards
+) ordered
+WHERE r.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS rewards_sort_order_idx
+  ON public.rewards (sort_order);
+
+ALTER TABLE public.rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view rewards in the catalog"
+  ON public.rewards
+  FOR SELECT
+  USING (archived_at IS NULL OR is_admin(auth.uid()));
+
+CREATE POLICY "Admins can add rewards"
+  ON public.rewards
+  FOR INSERT
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can edit rewards"
+  ON public.rewards
+  FOR UPDATE
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+-- Reward pictures, uploaded by admins from the reward manager
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reward-images', 'reward-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Reward images are public"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'reward-images');
+
+CREATE POLICY "Admins can upload reward images"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'reward-images' AND is_admin(auth.uid()));
+
+CREATE POLICY "Admins can replace reward images"
+  ON storage.objects
+  FOR UPDATE
+  USING (bucket_id = 'reward-images' AND is_admin(auth.uid()));
+
+-- Put the given rewards in this order (admins only). Rewards not listed keep
+-- their relative order after the listed ones. Every reward is renumbered from 1
+-- in one pass, so positions never collide or creep upwards.
+CREATE OR REPLACE FUNCTION public.reorder_rewards(p_reward_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can reorder rewards';
+  END IF;
+
+  UPDATE rewards r
+  SET sort_order = ordered.position,
+      updated_at = now()
+  FROM (
+    SELECT
+      rw.id,
+      row_number() OVER (
+        ORDER BY listed.position NULLS LAST, rw.sort_order, rw.token_cost, rw.created_at
+      ) AS position
+    FROM rewards rw
+    LEFT JOIN unnest(p_reward_ids) WITH ORDINALITY AS listed(id, position) ON listed.id = rw.id
+  ) ordered
+  WHERE r.id = ordered.id
+  AND r.sort_order IS DISTINCT FROM ordered.position;
+END;
+$$;
+
+-- Redeem a reward for the current user, with where to deliver it. Returns the
+-- redemption id. Retrying with the same idempotency key returns the first
+-- redemption instead of charging twice.
+CREATE OR REPLACE FUNCTION public.redeem_reward(
+  p_reward_id UUID,
+  p_idempotency_key TEXT,
+  p_recipient_name TEXT,
+  p_shipping_address TEXT,
+  p_contact_phone TEXT DEFAULT NULL,
+  p_delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward rewards%ROWTYPE;
+  v_key TEXT := 'reward_redemption:' || p_idempotency_key;
+  v_redemption_id UUID;
+  v_transaction token_transactions%ROWTYPE;
+  v_redeemed INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to redeem rewards';
+  END IF;
+
+  SELECT source_id INTO v_redemption_id
+  FROM token_transactions
+  WHERE idempotency_key = v_key
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    RETURN v_redemption_id;
+  END IF;
+
+  IF length(trim(COALESCE(p_recipient_name, ''))) = 0 OR length(trim(COALESCE(p_shipping_address, ''))) = 0 THEN
+    RAISE EXCEPTION 'A recipient name and delivery address are required';
+  END IF;
+
+  -- Locked so concurrent redemptions see each other when checking the limits
+  SELECT * INTO v_reward FROM rewards WHERE id = p_reward_id FOR UPDATE;
+
+  IF NOT FOUND OR v_reward.available IS FALSE OR v_reward.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This reward is not available';
+  END IF;
+
+  IF v_reward.starts_at > now() THEN
+    RAISE EXCEPTION 'This reward can be redeemed from %', to_char(v_reward.starts_at, 'YYYY-MM-DD');
+  END IF;
+
+  IF v_reward.ends_at <= now() THEN
+    RAISE EXCEPTION 'This reward is no longer offered';
+  END IF;
+
+  IF v_reward.stock_quantity = 0 THEN
+    RAISE EXCEPTION 'This reward is out of stock';
+  END IF;
+
+  IF v_reward.per_user_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_redeemed
+    FROM redeemed_rewards
+    WHERE user_id = v_user_id
+    AND reward_id = p_reward_id
+    AND status NOT IN ('rejected', 'cancelled');
+
+    IF v_redeemed >= v_reward.per_user_limit THEN
+      RAISE EXCEPTION 'You can redeem this reward at most % time(s)', v_reward.per_user_limit;
+    END IF;
+  END IF;
+
+  INSERT INTO redeemed_rewards (
+    user_id, reward_id, status, recipient_name, shipping_address, contact_phone, delivery_instructions
+  )
+  VALUES (
+    v_user_id,
+    p_reward_id,
+    'pending',
+    trim(p_recipient_name),
+    trim(p_shipping_address),
+    NULLIF(trim(p_contact_phone), ''),
+    NULLIF(trim(p_delivery_instructions), '')
+  )
+  RETURNING id INTO v_redemption_id;
+
+  INSERT INTO redemption_status_events (redemption_id, status, changed_by)
+  VALUES (v_redemption_id, 'pending', v_user_id);
+
+  -- Raises on overdraft, which rolls back the redemption as well
+  v_transaction := post_token_transaction(
+    v_user_id,
+    v_reward.token_cost,
+    'spent',
+    'reward_redemption',
+    v_redemption_id,
+    'Redeemed: ' || v_reward.title,
+    v_key
+  );
+
+  -- Keys are per user, so an entry for another redemption means this one was never charged
+  IF v_transaction.source_id IS DISTINCT FROM v_redemption_id THEN
+    RAISE EXCEPTION 'This redemption key has already been used';
+  END IF;
+
+  RETURN v_redemption_id;
+END;
+$$;
@@ -0,0 +1,382 @@
+-- Reward stock and restock waitlists.
+-- redeem_reward takes one unit from stock while holding the reward row lock,
+-- so concurrent redemptions can never take more units than there are; a
+-- rejected or cancelled redemption puts its unit back. Users can wait for an
+-- out-of-stock reward: when it is restocked their waitlist entries are marked
+-- and the rewards page tells them.
+
+ALTER TABLE public.rewards
+  ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER NOT NULL DEFAULT 5 CHECK (low_stock_threshold >= 0);
+
+COMMENT ON COLUMN public.rewards.low_stock_threshold IS 'Stock at or below which the reward manager flags the reward as running low';
+
+-- Redemptions made while the reward was unlimited, or before stock was
+-- tracked, took no unit and so have none to give back
+ALTER TABLE public.redeemed_rewards
+  ADD COLUMN IF NOT EXISTS stock_decremented BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.redeemed_rewards.stock_decremented IS 'Whether the redemption took a unit of stock, which rejecting or cancelling it returns';
+
+CREATE TABLE IF NOT EXISTS public.reward_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reward_id UUID REFERENCES public.rewards(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  restocked_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT unique_reward_waitlist_entry UNIQUE (reward_id, user_id)
+);
+
+COMMENT ON COLUMN public.reward_waitlist.restocked_at IS 'When the reward came back in stock after the user joined; null while still waiting';
+
+CREATE INDEX IF NOT EXISTS reward_waitlist_reward_idx
+  ON public.reward_waitlist (reward_id, created_at);
+
+ALTER TABLE public.reward_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own waitlist entries"
+  ON public.reward_waitlist
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all waitlist entries"
+  ON public.reward_waitlist
+  FOR SELECT
+  USING (is_admin(auth.uid()));
+
+-- Waitlist entries are only written through the functions below
+
+-- Tell everyone waiting when an out-of-stock reward gets stock again
+CREATE OR REPLACE FUNCTION public.handle_reward_restock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.stock_quantity = 0 AND (NEW.stock_quantity IS NULL OR NEW.stock_quantity > 0) THEN
+    UPDATE reward_waitlist
+    SET restocked_at = now()
+    WHERE reward_id = NEW.id
+    AND restocked_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rewards_restock
+  AFTER UPDATE OF stock_quantity ON public.rewards
+  FOR EACH ROW EXECUTE FUNCTION public.handle_reward_restock();
+
+-- Change a reward's stock (admins only), under the row lock redeem_reward takes.
+-- p_loaded_quantity is the stock the reward manager showed: tracked stock moves
+-- by the difference, so units redeemed since then stay taken. Otherwise the
+-- stock is set to p_stock_quantity, null for unlimited. Returns the new stock.
+CREATE OR REPLACE FUNCTION public.update_reward_stock(
+  p_reward_id UUID,
+  p_stock_quantity INTEGER,
+  p_loaded_quantity INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_current INTEGER;
+  v_stock INTEGER;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can change reward stock';
+  END IF;
+
+  IF p_stock_quantity < 0 THEN
+    RAISE EXCEPTION 'Stock cannot be negative';
+  END IF;
+
+  SELECT stock_quantity INTO v_current FROM rewards WHERE id = p_reward_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF p_stock_quantity IS NOT NULL AND p_loaded_quantity IS NOT NULL AND v_current IS NOT NULL THEN
+    v_stock := GREATEST(v_current + p_stock_quantity - p_loaded_quantity, 0);
+  ELSE
+    v_stock := p_stock_quantity;
+  END IF;
+
+  UPDATE rewards
+  SET stock_quantity = v_stock,
+      updated_at = now()
+  WHERE id = p_reward_id;
+
+  RETURN v_stock;
+END;
+$$;
+
+-- Wait for an out-of-stock reward. Joining again after a restock starts a new wait.
+CREATE OR REPLACE FUNCTION public.join_reward_waitlist(p_reward_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward rewards%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to join a waitlist';
+  END IF;
+
+  SELECT * INTO v_reward FROM rewards WHERE id = p_reward_id;
+
+  IF NOT FOUND OR v_reward.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF v_reward.stock_quantity IS DISTINCT FROM 0 THEN
+    RAISE EXCEPTION 'This reward is in stock';
+  END IF;
+
+  INSERT INTO reward_waitlist (reward_id, user_id)
+  VALUES (p_reward_id, v_user_id)
+  ON CONFLICT (reward_id, user_id) DO UPDATE
+  SET created_at = now(),
+      restocked_at = NULL;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Stop waiting for a reward
+CREATE OR REPLACE FUNCTION public.leave_reward_waitlist(p_reward_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to leave a waitlist';
+  END IF;
+
+  DELETE FROM reward_waitlist
+  WHERE reward_id = p_reward_id
+  AND user_id = v_user_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Users still waiting for each reward, for the reward manager (admins only)
+CREATE OR REPLACE FUNCTION public.reward_waitlist_counts()
+RETURNS TABLE (reward_id UUID, waiting INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view waitlists';
+  END IF;
+
+  RETURN QUERY
+  SELECT w.reward_id, count(*)::INTEGER
+  FROM reward_waitlist w
+  WHERE w.restocked_at IS NULL
+  GROUP BY w.reward_id;
+END;
+$$;
+
+-- Redeem a reward for the current user, with where to deliver it. Returns the
+-- redemption id. Retrying with the same idempotency key returns the first
+-- redemption instead of charging twice.
+CREATE OR REPLACE FUNCTION public.redeem_reward(
+  p_reward_id UUID,
+  p_idempotency_key TEXT,
+  p_recipient_name TEXT,
+  p_shipping_address TEXT,
+  p_contact_phone TEXT DEFAULT NULL,
+  p_delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward rewards%ROWTYPE;
+  v_key TEXT := 'reward_redemption:' || p_idempotency_key;
+  v_redemption_id UUID;
+  v_transaction token_transactions%ROWTYPE;
+  v_redeemed INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to redeem rewards';
+  END IF;
+
+  SELECT source_id INTO v_redemption_id
+  FROM token_transactions
+  WHERE idempotency_key = v_key
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    RETURN v_redemption_id;
+  END IF;
+
+  IF length(trim(COALESCE(p_recipient_name, ''))) = 0 OR length(trim(COALESCE(p_shipping_address, ''))) = 0 THEN
+    RAISE EXCEPTION 'A recipient name and delivery address are required';
+  END IF;
+
+  -- Held until the transaction ends, so concurrent redemptions queue here and
+  -- each sees the stock the previous one left
+  SELECT * INTO v_reward FROM rewards WHERE id = p_reward_id FOR UPDATE;
+
+  IF NOT FOUND OR v_reward.available IS FALSE OR v_reward.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This reward is not available';
+  END IF;
+
+  IF v_reward.starts_at > now() THEN
+    RAISE EXCEPTION 'This reward can be redeemed from %', to_char(v_reward.starts_at, 'YYYY-MM-DD');
+  END IF;
+
+  IF v_reward.ends_at <= now() THEN
+    RAISE EXCEPTION 'This reward is no longer offered';
+  END IF;
+
+  IF v_reward.stock_quantity = 0 THEN
+    RAISE EXCEPTION 'This reward is out of stock';
+  END IF;
+
+  IF v_reward.per_user_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_redeemed
+    FROM redeemed_rewards
+    WHERE user_id = v_user_id
+    AND reward_id = p_reward_id
+    AND status NOT IN ('rejected', 'cancelled');
+
+    IF v_redeemed >= v_reward.per_user_limit THEN
+      RAISE EXCEPTION 'You can redeem this reward at most % time(s)', v_reward.per_user_limit;
+    END IF;
+  END IF;
+
+  UPDATE rewards
+  SET stock_quantity = stock_quantity - 1,
+      updated_at = now()
+  WHERE id = p_reward_id
+  AND stock_quantity IS NOT NULL;
+
+  INSERT INTO redeemed_rewards (
+    user_id, reward_id, status, recipient_name, shipping_address, contact_phone, delivery_instructions,
+    stock_decremented
+  )
+  VALUES (
+    v_user_id,
+    p_reward_id,
+    'pending',
+    trim(p_recipient_name),
+    trim(p_shipping_address),
+    NULLIF(trim(p_contact_phone), ''),
+    NULLIF(trim(p_delivery_instructions), ''),
+    v_reward.stock_quantity IS NOT NULL
+  )
+  RETURNING id INTO v_redemption_id;
+
+  INSERT INTO redemption_status_events (redemption_id, status, changed_by)
+  VALUES (v_redemption_id, 'pending', v_user_id);
+
+  -- The wait is over for this user
+  DELETE FROM reward_waitlist
+  WHERE reward_id = p_reward_id
+  AND user_id = v_user_id;
+
+  -- Raises on overdraft, which rolls back the redemption and stock as well
+  v_transaction := post_token_transaction(
+    v_user_id,
+    v_reward.token_cost,
+    'spent',
+    'reward_redemption',
+    v_redemption_id,
+    'Redeemed: ' || v_reward.title,
+    v_key
+  );
+
+  -- Keys are per user, so an entry for another redemption means this one was never charged
+  IF v_transaction.source_id IS DISTINCT FROM v_redemption_id THEN
+    RAISE EXCEPTION 'This redemption key has already been used';
+  END IF;
+
+  RETURN v_redemption_id;
+END;
+$$;
+
+-- Move a redemption along its lifecycle. Only admins; returns the tokens
+-- refunded, which is non-zero only when a redemption is rejected or cancelled.
+-- Rejected and cancelled redemptions also return the unit they took, if any.
+CREATE OR REPLACE FUNCTION public.update_redemption_status(
+  p_redemption_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_reference TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_redemption redeemed_rewards%ROWTYPE;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can update redemptions';
+  END IF;
+
+  SELECT * INTO v_redemption FROM redeemed_rewards WHERE id = p_redemption_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF NOT (
+    (v_redemption.status = 'pending' AND p_status IN ('approved', 'rejected'))
+    OR (v_redemption.status = 'approved' AND p_status IN ('shipped', 'cancelled'))
+    OR (v_redemption.status = 'shipped' AND p_status = 'delivered')
+  ) THEN
+    RAISE EXCEPTION 'A % redemption cannot be marked %', v_redemption.status, p_status;
+  END IF;
+
+  IF p_status IN ('rejected', 'cancelled') AND length(trim(COALESCE(p_note, ''))) = 0 THEN
+    RAISE EXCEPTION 'A note is required to % a redemption', CASE p_status WHEN 'rejected' THEN 'reject' ELSE 'cancel' END;
+  END IF;
+
+  UPDATE redeemed_rewards
+  SET status = p_status,
+      tracking_reference = COALESCE(NULLIF(trim(p_tracking_reference), ''), tracking_reference),
+      updated_at = now()
+  WHERE id = p_redemption_id;
+
+  INSERT INTO redemption_status_events (redemption_id, status, note, changed_by)
+  VALUES (p_redemption_id, p_status, NULLIF(trim(p_note), ''), v_admin_id);
+
+  IF p_status IN ('rejected', 'cancelled') THEN
+    IF v_redemption.stock_decremented THEN
+      UPDATE rewards
+      SET stock_quantity = stock_quantity + 1,
+          updated_at = now()
+      WHERE id = v_redemption.reward_id
+      AND stock_quantity IS NOT NULL;
+    END IF;
+
+    RETURN refund_reward_redemption(p_redemption_id);
+  END IF;
+
+  RETURN 0;
+END;
+$$;
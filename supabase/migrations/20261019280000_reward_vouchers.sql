@@ -0,0 +1,341 @@
+-- Digital rewards delivered as voucher codes.
+-- Admins import a pool of codes per reward. Redeeming a voucher reward takes
+-- the oldest unused code while holding the reward row lock, records it against
+-- the redemption and marks the redemption delivered at once. A code belongs to
+-- at most one redemption (unique redemption_id), so it is never issued twice.
+-- The stock of a voucher reward is the number of unused codes.
+
+ALTER TABLE public.rewards
+  ADD COLUMN IF NOT EXISTS delivery_method TEXT NOT NULL DEFAULT 'physical'
+  CHECK (delivery_method IN ('physical', 'voucher'));
+
+COMMENT ON COLUMN public.rewards.delivery_method IS 'physical rewards are shipped to the address given; voucher rewards issue a code from reward_vouchers';
+
+CREATE TABLE IF NOT EXISTS public.reward_vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reward_id UUID REFERENCES public.rewards(id) ON DELETE CASCADE NOT NULL,
+  code TEXT NOT NULL CHECK (length(trim(code)) > 0),
+  imported_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  redemption_id UUID REFERENCES public.redeemed_rewards(id) UNIQUE,
+  issued_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT unique_reward_voucher_code UNIQUE (reward_id, code)
+);
+
+COMMENT ON TABLE public.reward_vouchers IS 'Voucher codes for digital rewards; issued once redemption_id is set';
+
+CREATE INDEX IF NOT EXISTS reward_vouchers_unused_idx
+  ON public.reward_vouchers (reward_id, created_at)
+  WHERE redemption_id IS NULL;
+
+ALTER TABLE public.reward_vouchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the codes issued to them"
+  ON public.reward_vouchers
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.redeemed_rewards r
+    WHERE r.id = redemption_id
+    AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all voucher codes"
+  ON public.reward_vouchers
+  FOR SELECT
+  USING (is_admin(auth.uid()));
+
+-- Codes are only written through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.reward_vouchers FROM anon, authenticated;
+
+-- A voucher reward's stock always equals its unused codes, whatever the
+-- reward manager sends
+CREATE OR REPLACE FUNCTION public.sync_voucher_reward_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.delivery_method = 'voucher' THEN
+    SELECT count(*) INTO NEW.stock_quantity
+    FROM reward_vouchers
+    WHERE reward_id = NEW.id
+    AND redemption_id IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rewards_sync_voucher_stock
+  BEFORE INSERT OR UPDATE OF delivery_method ON public.rewards
+  FOR EACH ROW EXECUTE FUNCTION public.sync_voucher_reward_stock();
+
+-- Add codes to a reward's pool (admins only). Blank lines and codes already in
+-- the pool are skipped. Returns the number of codes added.
+CREATE OR REPLACE FUNCTION public.import_reward_vouchers(p_reward_id UUID, p_codes TEXT[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_added INTEGER;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can import voucher codes';
+  END IF;
+
+  PERFORM 1 FROM rewards WHERE id = p_reward_id AND delivery_method = 'voucher' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Codes can only be imported for voucher rewards';
+  END IF;
+
+  INSERT INTO reward_vouchers (reward_id, code, imported_by)
+  SELECT DISTINCT p_reward_id, trim(code), v_admin_id
+  FROM unnest(p_codes) AS code
+  WHERE length(trim(COALESCE(code, ''))) > 0
+  ON CONFLICT (reward_id, code) DO NOTHING;
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  -- Goes through rewards_restock, so anyone waiting hears about new codes
+  UPDATE rewards
+  SET stock_quantity = (
+        SELECT count(*) FROM reward_vouchers
+        WHERE reward_id = p_reward_id
+        AND redemption_id IS NULL
+      ),
+      updated_at = now()
+  WHERE id = p_reward_id;
+
+  RETURN v_added;
+END;
+$$;
+
+-- Unused and issued codes per voucher reward, for the reward manager (admins only)
+CREATE OR REPLACE FUNCTION public.reward_voucher_counts()
+RETURNS TABLE (reward_id UUID, unused INTEGER, issued INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view voucher pools';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.reward_id,
+    (count(*) FILTER (WHERE v.redemption_id IS NULL))::INTEGER,
+    (count(*) FILTER (WHERE v.redemption_id IS NOT NULL))::INTEGER
+  FROM reward_vouchers v
+  GROUP BY v.reward_id;
+END;
+$$;
+
+-- Voucher stock can only change through codes
+CREATE OR REPLACE FUNCTION public.update_reward_stock(
+  p_reward_id UUID,
+  p_stock_quantity INTEGER,
+  p_loaded_quantity INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_current INTEGER;
+  v_delivery_method TEXT;
+  v_stock INTEGER;
+BEGIN
+  IF v_admin_id IS NULL OR NOT is_admin(v_admin_id) THEN
+    RAISE EXCEPTION 'Only admins can change reward stock';
+  END IF;
+
+  IF p_stock_quantity < 0 THEN
+    RAISE EXCEPTION 'Stock cannot be negative';
+  END IF;
+
+  SELECT stock_quantity, delivery_method INTO v_current, v_delivery_method
+  FROM rewards
+  WHERE id = p_reward_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF v_delivery_method = 'voucher' THEN
+    RAISE EXCEPTION 'The stock of a voucher reward is its unused codes; import codes to add stock';
+  END IF;
+
+  IF p_stock_quantity IS NOT NULL AND p_loaded_quantity IS NOT NULL AND v_current IS NOT NULL THEN
+    v_stock := GREATEST(v_current + p_stock_quantity - p_loaded_quantity, 0);
+  ELSE
+    v_stock := p_stock_quantity;
+  END IF;
+
+  UPDATE rewards
+  SET stock_quantity = v_stock,
+      updated_at = now()
+  WHERE id = p_reward_id;
+
+  RETURN v_stock;
+END;
+$$;
+
+-- Redeem a reward for the current user. Physical rewards need a recipient and
+-- a delivery address; voucher rewards are issued a code and delivered at once.
+-- Returns the redemption id. Retrying with the same idempotency key returns the
+-- first redemption instead of charging twice.
+CREATE OR REPLACE FUNCTION public.redeem_reward(
+  p_reward_id UUID,
+  p_idempotency_key TEXT,
+  p_recipient_name TEXT,
+  p_shipping_address TEXT,
+  p_contact_phone TEXT DEFAULT NULL,
+  p_delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward rewards%ROWTYPE;
+  v_key TEXT := 'reward_redemption:' || p_idempotency_key;
+  v_redemption_id UUID;
+  v_transaction token_transactions%ROWTYPE;
+  v_redeemed INTEGER;
+  v_voucher_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to redeem rewards';
+  END IF;
+
+  SELECT source_id INTO v_redemption_id
+  FROM token_transactions
+  WHERE idempotency_key = v_key
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    RETURN v_redemption_id;
+  END IF;
+
+  -- Held until the transaction ends, so concurrent redemptions queue here and
+  -- each sees the stock and codes the previous one left
+  SELECT * INTO v_reward FROM rewards WHERE id = p_reward_id FOR UPDATE;
+
+  IF NOT FOUND OR v_reward.available IS FALSE OR v_reward.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This reward is not available';
+  END IF;
+
+  IF v_reward.delivery_method = 'physical'
+    AND (length(trim(COALESCE(p_recipient_name, ''))) = 0 OR length(trim(COALESCE(p_shipping_address, ''))) = 0) THEN
+    RAISE EXCEPTION 'A recipient name and delivery address are required';
+  END IF;
+
+  IF v_reward.starts_at > now() THEN
+    RAISE EXCEPTION 'This reward can be redeemed from %', to_char(v_reward.starts_at, 'YYYY-MM-DD');
+  END IF;
+
+  IF v_reward.ends_at <= now() THEN
+    RAISE EXCEPTION 'This reward is no longer offered';
+  END IF;
+
+  IF v_reward.stock_quantity = 0 THEN
+    RAISE EXCEPTION 'This reward is out of stock';
+  END IF;
+
+  IF v_reward.per_user_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_redeemed
+    FROM redeemed_rewards
+    WHERE user_id = v_user_id
+    AND reward_id = p_reward_id
+    AND status NOT IN ('rejected', 'cancelled');
+
+    IF v_redeemed >= v_reward.per_user_limit THEN
+      RAISE EXCEPTION 'You can redeem this reward at most % time(s)', v_reward.per_user_limit;
+    END IF;
+  END IF;
+
+  IF v_reward.delivery_method = 'voucher' THEN
+    SELECT id INTO v_voucher_id
+    FROM reward_vouchers
+    WHERE reward_id = p_reward_id
+    AND redemption_id IS NULL
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF v_voucher_id IS NULL THEN
+      RAISE EXCEPTION 'This reward is out of stock';
+    END IF;
+  END IF;
+
+  UPDATE rewards
+  SET stock_quantity = stock_quantity - 1,
+      updated_at = now()
+  WHERE id = p_reward_id
+  AND stock_quantity IS NOT NULL;
+
+  INSERT INTO redeemed_rewards (
+    user_id, reward_id, status, recipient_name, shipping_address, contact_phone, delivery_instructions,
+    stock_decremented
+  )
+  VALUES (
+    v_user_id,
+    p_reward_id,
+    CASE WHEN v_voucher_id IS NULL THEN 'pending' ELSE 'delivered' END,
+    NULLIF(trim(p_recipient_name), ''),
+    NULLIF(trim(p_shipping_address), ''),
+    NULLIF(trim(p_contact_phone), ''),
+    NULLIF(trim(p_delivery_instructions), ''),
+    v_reward.stock_quantity IS NOT NULL
+  )
+  RETURNING id INTO v_redemption_id;
+
+  IF v_voucher_id IS NULL THEN
+    INSERT INTO redemption_status_events (redemption_id, status, changed_by)
+    VALUES (v_redemption_id, 'pending', v_user_id);
+  ELSE
+    UPDATE reward_vouchers
+    SET redemption_id = v_redemption_id,
+        issued_at = now()
+    WHERE id = v_voucher_id;
+
+    INSERT INTO redemption_status_events (redemption_id, status, note, changed_by)
+    VALUES (v_redemption_id, 'delivered', 'Voucher code issued', v_user_id);
+  END IF;
+
+  -- The wait is over for this user
+  DELETE FROM reward_waitlist
+  WHERE reward_id = p_reward_id
+  AND user_id = v_user_id;
+
+  -- Raises on overdraft, which rolls back the redemption, stock and code as well
+  v_transaction := post_token_transaction(
+    v_user_id,
+    v_reward.token_cost,
+    'spent',
+    'reward_redemption',
+    v_redemption_id,
+    'Redeemed: ' || v_reward.title,
+    v_key
+  );
+
+  -- Keys are per user, so an entry for another redemption means this one was never charged
+  IF v_transaction.source_id IS DISTINCT FROM v_redemption_id THEN
+    RAISE EXCEPTION 'This redemption key has already been used';
+  END IF;
+
+  RETURN v_redemption_id;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Authenticity checks that the photo's EXIF couldn't settle at submission
+-- (no capture time, no GPS, no metadata at all). The EXIF comes from the
+-- client, so these are left for moderators rather than passed.
+
+ALTER TABLE public.waste_report_verifications
+  ADD COLUMN IF NOT EXISTS review_notes TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.waste_report_verifications.review_notes IS 'Authenticity checks a moderator needs to make by hand; empty when the EXIF covered them';